@@ -0,0 +1,106 @@
+/** benchmarks of the `DataView` based fixed-sized numeric codecs in `eightpack`, against the previous typed array based implementation. <br>
+ * the previous implementation is replicated here as is, and the outputs of both implementations are verified to be identical before timing them. <br>
+ * run it via `npm run bench`
+ * @module
+*/
+
+import { decode_number, decode_number_array, encode_number, encode_number_array } from "../src/utility/eightpack"
+import { env_le, swapEndianessFast, typed_array_constructor_of } from "../src/utility/typedbuffer"
+import { NumericArrayType, NumericDType, NumericType, TypedArray } from "../src/utility/typedefs"
+
+/// PREVIOUS IMPLEMENTATION
+
+const legacy_encode_number_array = (value: number[], type: NumericArrayType): Uint8Array => {
+	const
+		[t, s, e] = type,
+		typed_arr_constructor = typed_array_constructor_of<NumericDType>(type as `${NumericDType}[]`),
+		bytesize = parseInt(s) as (1 | 2 | 4 | 8),
+		is_native_endian = (e === "l" && env_le) || (e === "b" && !env_le) || bytesize === 1 ? true : false,
+		typed_arr: TypedArray = (typed_arr_constructor as Float64ArrayConstructor).from(value)
+	if (typed_arr instanceof Uint8Array) return typed_arr
+	const buf = new Uint8Array(typed_arr.buffer)
+	if (is_native_endian) return buf
+	else return swapEndianessFast(buf, bytesize)
+}
+
+const legacy_decode_number_array = (buf: Uint8Array, offset: number, type: NumericArrayType, array_length?: number): [number[], number] => {
+	const
+		[t, s, e] = type,
+		bytesize = parseInt(s) as (1 | 2 | 4 | 8),
+		is_native_endian = (e === "l" && env_le) || (e === "b" && !env_le) || bytesize === 1 ? true : false,
+		bytelength = array_length ? bytesize * array_length : undefined,
+		array_buf = buf.slice(offset, bytelength ? offset + bytelength : undefined),
+		array_bytesize = array_buf.length,
+		typed_arr_constructor = typed_array_constructor_of<NumericDType>(type as `${NumericDType}[]`),
+		typed_arr: TypedArray = new typed_arr_constructor(is_native_endian ? array_buf.buffer : swapEndianessFast(array_buf, bytesize).buffer)
+	return [Array.from(typed_arr as Float64Array), array_bytesize]
+}
+
+const legacy_encode_number = (value: number, type: NumericType): Uint8Array => legacy_encode_number_array([value,], type + "[]" as NumericArrayType)
+
+const legacy_decode_number = (buf: Uint8Array, offset: number, type: NumericType): [number, number] => {
+	const [value_arr, bytesize] = legacy_decode_number_array(buf, offset, type + "[]" as NumericArrayType, 1)
+	return [value_arr[0], bytesize]
+}
+
+/// BENCHMARKING UTILITIES
+
+/** a benchmark case, consisting of a `legacy` and a `current` function that must return identical results */
+interface BenchCase {
+	name: string
+	iterations: number
+	legacy: () => any
+	current: () => any
+}
+
+/** time `iterations` number of calls to `fn` after a short warm up, and return the mean time per call in microseconds */
+const timeIt = (fn: () => any, iterations: number): number => {
+	for (let i = 0; i < Math.min(iterations, 1000); i++) fn()
+	const t0 = performance.now()
+	for (let i = 0; i < iterations; i++) fn()
+	return (performance.now() - t0) * 1000 / iterations
+}
+
+/** compare the results of two calls, where the results may be `Uint8Array`s or `Decoded` tuples */
+const isSameResult = (a: any, b: any): boolean => JSON.stringify(Array.from(a), (k, v) => v instanceof Uint8Array ? Array.from(v) : v) === JSON.stringify(Array.from(b), (k, v) => v instanceof Uint8Array ? Array.from(v) : v)
+
+const runBenchCases = (cases: BenchCase[]) => {
+	const rows: { [name: string]: { "legacy (µs)": number, "current (µs)": number, "speedup": number } } = {}
+	for (const { name, iterations, legacy, current } of cases) {
+		if (!isSameResult(legacy(), current())) throw new Error(`benchmark "${name}" produced mismatching results between the legacy and current implementations`)
+		const
+			legacy_time = timeIt(legacy, iterations),
+			current_time = timeIt(current, iterations)
+		rows[name] = {
+			"legacy (µs)": Number(legacy_time.toFixed(4)),
+			"current (µs)": Number(current_time.toFixed(4)),
+			"speedup": Number((legacy_time / current_time).toFixed(2)),
+		}
+	}
+	console.table(rows)
+}
+
+/// BENCHMARK CASES
+
+const
+	array_length = 4096,
+	random_floats = Array.from({ length: array_length }, () => Math.random() * 2000 - 1000),
+	random_u2 = random_floats.map(v => Math.abs(Math.round(v * 60))),
+	f4l_buf = encode_number_array(random_floats, "f4l[]"),
+	f8b_buf = encode_number_array(random_floats, "f8b[]"),
+	u2b_buf = encode_number_array(random_u2, "u2b[]"),
+	// an odd offset makes the array unaligned, and forces the decoder to copy
+	unaligned_f4l_buf = Uint8Array.of(0, ...f4l_buf)
+
+runBenchCases([
+	{ name: "encode scalar u4l", iterations: 200_000, legacy: () => legacy_encode_number(0x12AB98, "u4l"), current: () => encode_number(0x12AB98, "u4l") },
+	{ name: "encode scalar f8b", iterations: 200_000, legacy: () => legacy_encode_number(Math.PI, "f8b"), current: () => encode_number(Math.PI, "f8b") },
+	{ name: "decode scalar u2b", iterations: 200_000, legacy: () => legacy_decode_number(u2b_buf, 1234, "u2b"), current: () => decode_number(u2b_buf, 1234, "u2b") },
+	{ name: "decode scalar f4l (unaligned)", iterations: 200_000, legacy: () => legacy_decode_number(f4l_buf, 1001, "f4l"), current: () => decode_number(f4l_buf, 1001, "f4l") },
+	{ name: `encode f4l[${array_length}]`, iterations: 2_000, legacy: () => legacy_encode_number_array(random_floats, "f4l[]"), current: () => encode_number_array(random_floats, "f4l[]") },
+	{ name: `encode f8b[${array_length}]`, iterations: 2_000, legacy: () => legacy_encode_number_array(random_floats, "f8b[]"), current: () => encode_number_array(random_floats, "f8b[]") },
+	{ name: `decode f4l[${array_length}]`, iterations: 2_000, legacy: () => legacy_decode_number_array(f4l_buf, 0, "f4l[]", array_length), current: () => decode_number_array(f4l_buf, 0, "f4l[]", array_length) },
+	{ name: `decode f4l[${array_length}] (unaligned)`, iterations: 2_000, legacy: () => legacy_decode_number_array(unaligned_f4l_buf, 1, "f4l[]", array_length), current: () => decode_number_array(unaligned_f4l_buf, 1, "f4l[]", array_length) },
+	{ name: `decode f8b[${array_length}]`, iterations: 2_000, legacy: () => legacy_decode_number_array(f8b_buf, 0, "f8b[]", array_length), current: () => decode_number_array(f8b_buf, 0, "f8b[]", array_length) },
+	{ name: `decode u2b[${array_length}]`, iterations: 2_000, legacy: () => legacy_decode_number_array(u2b_buf, 0, "u2b[]", array_length), current: () => decode_number_array(u2b_buf, 0, "u2b[]", array_length) },
+])
@@ -0,0 +1,23 @@
+import compiler_options from "../src/compiler_options.mjs"
+import esbuild from "esbuild"
+import fs from "fs"
+
+const benchmark_dir = "./benchmark/"
+const out_dir = "./dist/benchmark/"
+const benchmark_files = fs.readdirSync(benchmark_dir).filter((filename) => filename.endsWith(".bench.ts"))
+
+for (const filename of benchmark_files) {
+	console.log("running benchmark: ", filename)
+	const outfile = out_dir + filename.replace(/\.ts$/, ".mjs")
+	await esbuild.build({
+		entryPoints: [ benchmark_dir + filename ],
+		outfile,
+		bundle: true,
+		minify: compiler_options.MINIFY,
+		platform: "node",
+		format: "esm",
+		target: "esnext",
+		define: compiler_options,
+	})
+	await import(new URL("../" + outfile, import.meta.url))
+}
@@ -0,0 +1,420 @@
+/** utility functions for encoding bytes into text, and decoding them back, via the common binary-to-text encodings (base64, base64url, hex, and ASCII85). <br>
+ * all decoders ignore whitespace (so that line-wrapped text can be decoded as is), and throw an error upon encountering an invalid character. <br>
+ * for streamed data, use the incremental {@link BinaryTextEncoder} and {@link BinaryTextDecoder}, or their `TransformStream` wrappers.
+ * @module
+*/
+
+/** the supported binary-to-text encodings
+ * - `"base64"` the standard base64 alphabet (`A-Z a-z 0-9 + /`), padded with `=` (RFC 4648 section 4)
+ * - `"base64url"` the url and filename safe base64 alphabet (`A-Z a-z 0-9 - _`), unpadded (RFC 4648 section 5)
+ * - `"hex"` two lower case hexadecimal digits per byte (RFC 4648 section 8)
+ * - `"ascii85"` Adobe's ASCII85 (also known as base85), which encodes every 4 bytes into 5 characters, and an all-zero group into `"z"`
+*/
+export type BinaryTextEncoding = "base64" | "base64url" | "hex" | "ascii85"
+
+const
+	base64_alphabet = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/",
+	base64url_alphabet = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_",
+	hex_alphabet = "0123456789abcdef"
+
+/** build a reverse lookup table of an `alphabet`, mapping each character code to its digit value, or `-1` if it is not a part of the alphabet */
+const reverseAlphabetOf = (alphabet: string): Int8Array => {
+	const table = new Int8Array(128).fill(-1)
+	for (let i = 0; i < alphabet.length; i++) table[alphabet.charCodeAt(i)] = i
+	return table
+}
+
+const
+	base64_digits = reverseAlphabetOf(base64_alphabet),
+	base64url_digits = reverseAlphabetOf(base64url_alphabet),
+	hex_digits = reverseAlphabetOf(hex_alphabet)
+// upper case hex digits are also accepted when decoding
+hex_digits.set([10, 11, 12, 13, 14, 15], "A".charCodeAt(0))
+
+/** remove all whitespace characters from a `str`ing */
+const stripWhitespace = (str: string): string => str.replace(/\s+/g, "")
+
+/** get the digit value of the character at `index` of `str`, according to the reverse lookup `digits` table. an error is thrown if the character is invalid */
+const digitAt = (str: string, index: number, digits: Int8Array, encoding: BinaryTextEncoding): number => {
+	const
+		code = str.charCodeAt(index),
+		digit = code < 128 ? digits[code] : -1
+	if (digit < 0) throw new SyntaxError(`invalid "${encoding}" character "${str[index]}" at index ${index}`)
+	return digit
+}
+
+/** convert an array of character codes to a string, in chunks, so that the maximum number of function arguments is not exceeded */
+const stringOfCharCodes = (codes: Uint8Array): string => {
+	const chunk_size = 0x2000
+	let str = ""
+	for (let i = 0; i < codes.length; i += chunk_size) str += String.fromCharCode(...codes.subarray(i, i + chunk_size))
+	return str
+}
+
+/// BASE64
+
+/** encode `bytes` into a base64 string, using the given 64 character `alphabet` */
+const encodeBase64With = (bytes: Uint8Array, alphabet: string, padding: boolean): string => {
+	const
+		len = bytes.length,
+		full_len = len - (len % 3),
+		codes = new Uint8Array(Math.ceil(len / 3) * 4)
+	let j = 0
+	for (let i = 0; i < full_len; i += 3) {
+		const triplet = (bytes[i] << 16) | (bytes[i + 1] << 8) | bytes[i + 2]
+		codes[j++] = alphabet.charCodeAt(triplet >> 18)
+		codes[j++] = alphabet.charCodeAt((triplet >> 12) & 0x3F)
+		codes[j++] = alphabet.charCodeAt((triplet >> 6) & 0x3F)
+		codes[j++] = alphabet.charCodeAt(triplet & 0x3F)
+	}
+	if (full_len < len) {
+		const
+			has_second_byte = len - full_len === 2,
+			triplet = (bytes[full_len] << 16) | (has_second_byte ? bytes[full_len + 1] << 8 : 0)
+		codes[j++] = alphabet.charCodeAt(triplet >> 18)
+		codes[j++] = alphabet.charCodeAt((triplet >> 12) & 0x3F)
+		if (has_second_byte) codes[j++] = alphabet.charCodeAt((triplet >> 6) & 0x3F)
+		if (padding) while (j % 4 !== 0) codes[j++] = 0x3D // "="
+	}
+	return stringOfCharCodes(codes.subarray(0, j))
+}
+
+/** decode a base64 `str`ing, using the given reverse lookup `digits` table. trailing padding is optional */
+const decodeBase64With = (str: string, digits: Int8Array, encoding: BinaryTextEncoding): Uint8Array => {
+	str = stripWhitespace(str)
+	let len = str.length
+	// at most two padding characters are permitted, and only at the very end
+	if (str[len - 1] === "=") len--
+	if (str[len - 1] === "=") len--
+	if (len % 4 === 1) throw new SyntaxError(`a "${encoding}" string cannot have ${len} significant characters, since its length modulo 4 must not be 1`)
+	const
+		full_len = len - (len % 4),
+		bytes = new Uint8Array(Math.floor(len * 3 / 4))
+	let j = 0
+	for (let i = 0; i < full_len; i += 4) {
+		const quartet =
+			(digitAt(str, i, digits, encoding) << 18) |
+			(digitAt(str, i + 1, digits, encoding) << 12) |
+			(digitAt(str, i + 2, digits, encoding) << 6) |
+			digitAt(str, i + 3, digits, encoding)
+		bytes[j++] = quartet >> 16
+		bytes[j++] = (quartet >> 8) & 0xFF
+		bytes[j++] = quartet & 0xFF
+	}
+	if (full_len < len) {
+		const has_third_char = len - full_len === 3
+		let quartet = (digitAt(str, full_len, digits, encoding) << 18) | (digitAt(str, full_len + 1, digits, encoding) << 12)
+		if (has_third_char) quartet |= digitAt(str, full_len + 2, digits, encoding) << 6
+		bytes[j++] = quartet >> 16
+		if (has_third_char) bytes[j++] = (quartet >> 8) & 0xFF
+	}
+	return bytes
+}
+
+/** encode `bytes` into a standard base64 string. the output is padded with `=` characters by default
+ * @example
+ * ```ts
+ * encodeBase64(encodeText("hello")) // "aGVsbG8="
+ * ```
+*/
+export const encodeBase64 = (bytes: Uint8Array, padding: boolean = true): string => encodeBase64With(bytes, base64_alphabet, padding)
+
+/** decode a standard base64 string into bytes. the trailing `=` padding is optional */
+export const decodeBase64 = (str: string): Uint8Array => decodeBase64With(str, base64_digits, "base64")
+
+/** encode `bytes` into a url and filename safe base64url string. the output is not padded by default
+ * @example
+ * ```ts
+ * encodeBase64Url(Uint8Array.of(0xFB, 0xFF)) // "-_8"
+ * ```
+*/
+export const encodeBase64Url = (bytes: Uint8Array, padding: boolean = false): string => encodeBase64With(bytes, base64url_alphabet, padding)
+
+/** decode a base64url string into bytes. the trailing `=` padding is optional */
+export const decodeBase64Url = (str: string): Uint8Array => decodeBase64With(str, base64url_digits, "base64url")
+
+/// HEX
+
+/** encode `bytes` into a hexadecimal string, with two digits per byte and no separators
+ * @example
+ * ```ts
+ * encodeHex(Uint8Array.of(0xDE, 0xAD, 0x01)) // "dead01"
+ * encodeHex(Uint8Array.of(0xDE, 0xAD, 0x01), true) // "DEAD01"
+ * ```
+*/
+export const encodeHex = (bytes: Uint8Array, upper_case: boolean = false): string => {
+	const
+		alphabet = upper_case ? hex_alphabet.toUpperCase() : hex_alphabet,
+		codes = new Uint8Array(bytes.length * 2)
+	for (let i = 0; i < bytes.length; i++) {
+		codes[i * 2] = alphabet.charCodeAt(bytes[i] >> 4)
+		codes[i * 2 + 1] = alphabet.charCodeAt(bytes[i] & 0x0F)
+	}
+	return stringOfCharCodes(codes)
+}
+
+/** decode a hexadecimal string (of either letter case) into bytes */
+export const decodeHex = (str: string): Uint8Array => {
+	str = stripWhitespace(str)
+	if (str.length % 2 !== 0) throw new SyntaxError(`a "hex" string must have an even number of digits, but ${str.length} were provided`)
+	const bytes = new Uint8Array(str.length / 2)
+	for (let i = 0; i < bytes.length; i++) bytes[i] = (digitAt(str, i * 2, hex_digits, "hex") << 4) | digitAt(str, i * 2 + 1, hex_digits, "hex")
+	return bytes
+}
+
+/// ASCII85
+
+const
+	/** the character code of `"!"`, which represents the digit `0` in ASCII85 */
+	ascii85_zero = 0x21,
+	/** the character code of `"u"`, which represents the digit `84` in ASCII85, and is used for padding partial groups */
+	ascii85_max = 0x75
+
+/** encode `bytes` into an ASCII85 string. <br>
+ * every full group of 4 zero bytes is abbreviated as `"z"`. set `delimit` to `true` to wrap the output within the `"<~"` and `"~>"` delimiters
+ * @example
+ * ```ts
+ * encodeAscii85(encodeText("hello")) // "BOu!rDZ"
+ * encodeAscii85(Uint8Array.of(0, 0, 0, 0, 1), true) // "<~z!<~>"
+ * ```
+*/
+export const encodeAscii85 = (bytes: Uint8Array, delimit: boolean = false): string => {
+	const
+		len = bytes.length,
+		codes = new Uint8Array(Math.ceil(len / 4) * 5)
+	let j = 0
+	for (let i = 0; i < len; i += 4) {
+		const group_len = Math.min(len - i, 4)
+		// partial groups are padded with zero bytes, and then only `group_len + 1` characters are emitted
+		let group = ((bytes[i] << 24) | ((bytes[i + 1] ?? 0) << 16) | ((bytes[i + 2] ?? 0) << 8) | (bytes[i + 3] ?? 0)) >>> 0
+		if (group === 0 && group_len === 4) {
+			codes[j++] = 0x7A // "z"
+			continue
+		}
+		const digits = [0, 0, 0, 0, 0]
+		for (let d = 4; d >= 0; d--) {
+			digits[d] = group % 85
+			group = Math.floor(group / 85)
+		}
+		for (let d = 0; d <= group_len; d++) codes[j++] = digits[d] + ascii85_zero
+	}
+	const str = stringOfCharCodes(codes.subarray(0, j))
+	return delimit ? "<~" + str + "~>" : str
+}
+
+/** decode an ASCII85 string into bytes. the `"<~"` and `"~>"` delimiters are optional */
+export const decodeAscii85 = (str: string): Uint8Array => {
+	str = stripWhitespace(str)
+	if (str.startsWith("<~")) str = str.slice(2)
+	if (str.endsWith("~>")) str = str.slice(0, -2)
+	const bytes: number[] = []
+	let
+		group = 0,
+		group_len = 0
+	for (let i = 0; i < str.length; i++) {
+		const code = str.charCodeAt(i)
+		if (code === 0x7A && group_len === 0) {
+			bytes.push(0, 0, 0, 0)
+			continue
+		}
+		if (code < ascii85_zero || code > ascii85_max) throw new SyntaxError(`invalid "ascii85" character "${str[i]}" at index ${i}`)
+		group = group * 85 + (code - ascii85_zero)
+		if (++group_len === 5) {
+			if (group > 0xFFFFFFFF) throw new SyntaxError(`the "ascii85" group ending at index ${i} exceeds the maximum value of a 4 byte group`)
+			bytes.push(group >>> 24, (group >>> 16) & 0xFF, (group >>> 8) & 0xFF, group & 0xFF)
+			group = 0
+			group_len = 0
+		}
+	}
+	if (group_len === 1) throw new SyntaxError(`an "ascii85" string cannot end with a partial group of a single character`)
+	if (group_len > 1) {
+		// the partial group is padded with the maximum digit, and then only `group_len - 1` bytes are kept
+		for (let d = group_len; d < 5; d++) group = group * 85 + (ascii85_max - ascii85_zero)
+		const padded_bytes = [group >>> 24, (group >>> 16) & 0xFF, (group >>> 8) & 0xFF, group & 0xFF]
+		bytes.push(...padded_bytes.slice(0, group_len - 1))
+	}
+	return Uint8Array.from(bytes)
+}
+
+/// GENERIC AND STREAMING
+
+/** encode `bytes` into a string of the given binary-to-text `encoding`, using its default options */
+export const encodeBinaryText = (bytes: Uint8Array, encoding: BinaryTextEncoding): string => {
+	switch (encoding) {
+		case "base64": return encodeBase64(bytes)
+		case "base64url": return encodeBase64Url(bytes)
+		case "hex": return encodeHex(bytes)
+		case "ascii85": return encodeAscii85(bytes)
+	}
+}
+
+/** decode a string of the given binary-to-text `encoding` into bytes */
+export const decodeBinaryText = (str: string, encoding: BinaryTextEncoding): Uint8Array => {
+	switch (encoding) {
+		case "base64": return decodeBase64(str)
+		case "base64url": return decodeBase64Url(str)
+		case "hex": return decodeHex(str)
+		case "ascii85": return decodeAscii85(str)
+	}
+}
+
+/** the number of bytes that get encoded as a single self-contained group of characters, for each {@link BinaryTextEncoding} */
+const byte_group_sizes: Record<BinaryTextEncoding, number> = { "base64": 3, "base64url": 3, "hex": 1, "ascii85": 4 }
+
+/** an incremental encoder for chunked bytes. <br>
+ * each call to {@link encode} emits the text of as many complete byte groups as possible, and holds on to the remaining few bytes until the next chunk arrives.
+ * the final partial group (and any padding) is emitted by {@link flush}. <br>
+ * the concatenation of all emitted strings is identical to the output of {@link encodeBinaryText} over the concatenation of all chunks.
+ * @example
+ * ```ts
+ * const encoder = new BinaryTextEncoder("base64")
+ * let text = ""
+ * for await (const chunk of file_chunks) text += encoder.encode(chunk)
+ * text += encoder.flush()
+ * ```
+*/
+export class BinaryTextEncoder {
+	/** the binary-to-text encoding of this encoder */
+	readonly encoding: BinaryTextEncoding
+	/** the bytes of an incomplete group that are held until more bytes arrive */
+	protected carry: Uint8Array = new Uint8Array(0)
+
+	constructor(encoding: BinaryTextEncoding) {
+		this.encoding = encoding
+	}
+
+	/** encode the next `chunk` of bytes, and return the text of all complete groups */
+	encode(chunk: Uint8Array): string {
+		const bytes = new Uint8Array(this.carry.length + chunk.length)
+		bytes.set(this.carry)
+		bytes.set(chunk, this.carry.length)
+		const cut = bytes.length - (bytes.length % byte_group_sizes[this.encoding])
+		this.carry = bytes.slice(cut)
+		return encodeBinaryText(bytes.subarray(0, cut), this.encoding)
+	}
+
+	/** encode the remaining held bytes, and reset the encoder so that it can be reused for a new stream */
+	flush(): string {
+		const bytes = this.carry
+		this.carry = new Uint8Array(0)
+		return encodeBinaryText(bytes, this.encoding)
+	}
+
+	/** create a `TransformStream` that encodes a stream of bytes into a stream of strings
+	 * @example
+	 * ```ts
+	 * const base64_text_stream = file.stream().pipeThrough(BinaryTextEncoder.stream("base64"))
+	 * ```
+	*/
+	static stream(encoding: BinaryTextEncoding): TransformStream<Uint8Array, string> {
+		const encoder = new BinaryTextEncoder(encoding)
+		return new TransformStream<Uint8Array, string>({
+			transform: (chunk, controller) => {
+				const text = encoder.encode(chunk)
+				if (text.length > 0) controller.enqueue(text)
+			},
+			flush: (controller) => {
+				const text = encoder.flush()
+				if (text.length > 0) controller.enqueue(text)
+			},
+		})
+	}
+}
+
+/** an incremental decoder for chunked text. <br>
+ * each call to {@link decode} returns the bytes of as many complete character groups as possible, and holds on to the remaining few characters until the next chunk arrives.
+ * the final partial group is decoded by {@link flush}. <br>
+ * for `"ascii85"`, the optional `"<~"` and `"~>"` delimiters may be split across chunks, and any text after the closing `"~>"` delimiter is ignored.
+*/
+export class BinaryTextDecoder {
+	/** the binary-to-text encoding of this decoder */
+	readonly encoding: BinaryTextEncoding
+	/** the characters (without whitespace) of an incomplete group that are held until more text arrives */
+	protected carry: string = ""
+	/** becomes `true` once the beginning of an `"ascii85"` text has been inspected for an opening delimiter */
+	protected started: boolean = false
+	/** becomes `true` once the closing delimiter of an `"ascii85"` text has been encountered */
+	protected ended: boolean = false
+
+	constructor(encoding: BinaryTextEncoding) {
+		this.encoding = encoding
+	}
+
+	/** decode the next `chunk` of text, and return the bytes of all complete groups */
+	decode(chunk: string): Uint8Array {
+		if (this.ended) return new Uint8Array(0)
+		let str = this.carry + stripWhitespace(chunk)
+		if (this.encoding === "ascii85") {
+			if (!this.started) {
+				// wait for enough characters to tell whether or not the text begins with the opening delimiter
+				if (str.length < 2 && "<~".startsWith(str)) {
+					this.carry = str
+					return new Uint8Array(0)
+				}
+				if (str.startsWith("<~")) str = str.slice(2)
+				this.started = true
+			}
+			const closing_index = str.indexOf("~")
+			if (closing_index >= 0) {
+				this.ended = true
+				this.carry = ""
+				return decodeAscii85(str.slice(0, closing_index))
+			}
+		}
+		const cut = this.completeGroupsLengthOf(str)
+		this.carry = str.slice(cut)
+		return decodeBinaryText(str.slice(0, cut), this.encoding)
+	}
+
+	/** decode the remaining held characters, and reset the decoder so that it can be reused for a new stream */
+	flush(): Uint8Array {
+		const str = this.carry
+		this.carry = ""
+		this.started = false
+		this.ended = false
+		return decodeBinaryText(str, this.encoding)
+	}
+
+	/** get the length of the longest prefix of `str` that consists only of complete character groups */
+	protected completeGroupsLengthOf(str: string): number {
+		switch (this.encoding) {
+			case "base64":
+			case "base64url": return str.length - (str.length % 4)
+			case "hex": return str.length - (str.length % 2)
+			case "ascii85": {
+				let
+					cut = 0,
+					group_len = 0
+				for (let i = 0; i < str.length; i++) {
+					// a `"z"` is a complete group on its own, but only when it appears at a group boundary
+					if (str[i] === "z" && group_len === 0) cut = i + 1
+					else if (++group_len === 5) {
+						group_len = 0
+						cut = i + 1
+					}
+				}
+				return cut
+			}
+		}
+	}
+
+	/** create a `TransformStream` that decodes a stream of strings into a stream of bytes
+	 * @example
+	 * ```ts
+	 * const byte_stream = response.body!.pipeThrough(new TextDecoderStream()).pipeThrough(BinaryTextDecoder.stream("base64"))
+	 * ```
+	*/
+	static stream(encoding: BinaryTextEncoding): TransformStream<string, Uint8Array> {
+		const decoder = new BinaryTextDecoder(encoding)
+		return new TransformStream<string, Uint8Array>({
+			transform: (chunk, controller) => {
+				const bytes = decoder.decode(chunk)
+				if (bytes.length > 0) controller.enqueue(bytes)
+			},
+			flush: (controller) => {
+				const bytes = decoder.flush()
+				if (bytes.length > 0) controller.enqueue(bytes)
+			},
+		})
+	}
+}
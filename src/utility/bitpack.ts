@@ -0,0 +1,203 @@
+/** utility functions and classes for packing and unpacking bit-level data, such as bitfields, sub-byte integers, and boolean flag sets. <br>
+ * this is the bit-granular counterpart of the `eightpack` module.
+ * @module
+*/
+
+/** the order in which bits are filled within each byte
+ * - `"msb"` the first bit goes into the most significant bit of a byte, and fields are written most significant bit first. this is used by PNG, MIDI, and most network protocols
+ * - `"lsb"` the first bit goes into the least significant bit of a byte, and fields are written least significant bit first. this is used by DEFLATE and many sensor packets
+*/
+export type BitOrder = "msb" | "lsb"
+
+/** the largest bitsize of a single field that can be written or read at once */
+const max_field_bitsize = 32
+
+/** throw an error if a single field's `bitsize` is not supported */
+const assertFieldBitsize = (bitsize: number): void => {
+	if (!(bitsize >= 0 && bitsize <= max_field_bitsize && Number.isInteger(bitsize))) throw new RangeError(`a bitfield's bitsize must be an integer between 0 and ${max_field_bitsize}, but ${bitsize} was provided`)
+}
+
+/** a writer that sequentially packs bitfields of arbitrary bitsizes into bytes. <br>
+ * the final byte is padded with zero bits when the total number of bits is not a multiple of 8.
+ * @example
+ * ```ts
+ * // pack a 3-bit, a 1-bit, and a 4-bit field into a single byte
+ * const bytes = new BitWriter("msb").writeBits(0b101, 3).writeFlags([true]).writeBits(0b0011, 4).toBytes() // Uint8Array.of(0b10110011)
+ * ```
+*/
+export class BitWriter {
+	/** the bit order of this writer */
+	readonly order: BitOrder
+	/** the bytes that have been written to so far. the last byte may be partially filled */
+	protected bytes: number[] = []
+	/** the total number of bits written so far */
+	protected bitpos: number = 0
+
+	constructor(order: BitOrder = "msb") {
+		this.order = order
+	}
+
+	/** the total number of bits written so far */
+	get bitLength(): number {
+		return this.bitpos
+	}
+
+	/** write a single bit (`0` or `1`) */
+	protected writeBit(bit: number): void {
+		const
+			bitpos = this.bitpos,
+			byte_index = bitpos >> 3,
+			shift = this.order === "msb" ? 7 - (bitpos & 7) : (bitpos & 7)
+		if (byte_index >= this.bytes.length) this.bytes.push(0)
+		this.bytes[byte_index] |= bit << shift
+		this.bitpos++
+	}
+
+	/** write an unsigned integer `value` occupying `bitsize` number of bits. an error is thrown if `value` does not fit in `bitsize` number of bits */
+	writeBits(value: number, bitsize: number): this {
+		assertFieldBitsize(bitsize)
+		if (!(value >= 0 && value < 2 ** bitsize && Number.isInteger(value))) throw new RangeError(`the value ${value} does not fit in an unsigned bitfield of bitsize ${bitsize}`)
+		if (this.order === "msb") for (let i = bitsize - 1; i >= 0; i--) this.writeBit((value >>> i) & 1)
+		else for (let i = 0; i < bitsize; i++) this.writeBit((value >>> i) & 1)
+		return this
+	}
+
+	/** write a signed integer `value` occupying `bitsize` number of bits, in two's complement representation. an error is thrown if `value` does not fit in `bitsize` number of bits */
+	writeSigned(value: number, bitsize: number): this {
+		assertFieldBitsize(bitsize)
+		const half = bitsize > 0 ? 2 ** (bitsize - 1) : 0
+		if (!(value >= -half && value <= Math.max(half - 1, 0) && Number.isInteger(value))) throw new RangeError(`the value ${value} does not fit in a signed bitfield of bitsize ${bitsize}`)
+		return this.writeBits(value < 0 ? value + 2 ** bitsize : value, bitsize)
+	}
+
+	/** write a set of boolean `flags`, each occupying a single bit */
+	writeFlags(flags: boolean[]): this {
+		for (const flag of flags) this.writeBit(flag ? 1 : 0)
+		return this
+	}
+
+	/** write a run of unsigned integer `values`, each occupying `bitsize` number of bits */
+	writeRun(values: number[], bitsize: number): this {
+		for (const value of values) this.writeBits(value, bitsize)
+		return this
+	}
+
+	/** write a run of signed integer `values`, each occupying `bitsize` number of bits, in two's complement representation */
+	writeSignedRun(values: number[], bitsize: number): this {
+		for (const value of values) this.writeSigned(value, bitsize)
+		return this
+	}
+
+	/** pad with zero bits until the next byte boundary */
+	align(): this {
+		this.bitpos = this.bytes.length * 8
+		return this
+	}
+
+	/** get the written bytes. the final byte is padded with zero bits if it is partially filled */
+	toBytes(): Uint8Array {
+		return Uint8Array.from(this.bytes)
+	}
+}
+
+/** a reader that sequentially unpacks bitfields of arbitrary bitsizes from bytes. it is the counterpart of {@link BitWriter}.
+ * @example
+ * ```ts
+ * const reader = new BitReader(Uint8Array.of(0b10110011), 0, "msb")
+ * reader.readBits(3) // 0b101
+ * reader.readFlags(1) // [true]
+ * reader.readBits(4) // 0b0011
+ * ```
+*/
+export class BitReader {
+	/** the buffer being read */
+	readonly buf: Uint8Array
+	/** the bit order of this reader */
+	readonly order: BitOrder
+	/** the byte offset in {@link buf} where the first bit is read from */
+	readonly offset: number
+	/** the number of bits read so far */
+	protected bitpos: number = 0
+
+	constructor(buf: Uint8Array, offset: number = 0, order: BitOrder = "msb") {
+		this.buf = buf
+		this.offset = offset
+		this.order = order
+	}
+
+	/** the number of bits read so far */
+	get bitLength(): number {
+		return this.bitpos
+	}
+
+	/** the number of bytes touched so far, including a partially read final byte */
+	get bytesize(): number {
+		return Math.ceil(this.bitpos / 8)
+	}
+
+	/** the number of bits remaining till the end of the buffer */
+	get remaining(): number {
+		return (this.buf.length - this.offset) * 8 - this.bitpos
+	}
+
+	/** read a single bit */
+	protected readBit(): number {
+		const
+			bitpos = this.bitpos,
+			byte = this.buf[this.offset + (bitpos >> 3)],
+			shift = this.order === "msb" ? 7 - (bitpos & 7) : (bitpos & 7)
+		this.bitpos++
+		return (byte >> shift) & 1
+	}
+
+	/** throw an error if reading `bitsize` number of bits would go beyond the end of the buffer */
+	protected assertBounds(bitsize: number): void {
+		if (bitsize > this.remaining) throw new RangeError(`reading ${bitsize} bits at bit position ${this.bitpos} requires more bits than the ${this.remaining} that remain`)
+	}
+
+	/** read an unsigned integer occupying `bitsize` number of bits */
+	readBits(bitsize: number): number {
+		assertFieldBitsize(bitsize)
+		this.assertBounds(bitsize)
+		let value = 0
+		if (this.order === "msb") for (let i = 0; i < bitsize; i++) value = value * 2 + this.readBit()
+		else for (let i = 0; i < bitsize; i++) value += this.readBit() * 2 ** i
+		return value
+	}
+
+	/** read a signed integer occupying `bitsize` number of bits, in two's complement representation */
+	readSigned(bitsize: number): number {
+		const value = this.readBits(bitsize)
+		return bitsize > 0 && value >= 2 ** (bitsize - 1) ? value - 2 ** bitsize : value
+	}
+
+	/** read `count` number of boolean flags, each occupying a single bit */
+	readFlags(count: number): boolean[] {
+		this.assertBounds(count)
+		const flags: boolean[] = []
+		for (let i = 0; i < count; i++) flags.push(this.readBit() === 1)
+		return flags
+	}
+
+	/** read a run of `count` unsigned integers, each occupying `bitsize` number of bits */
+	readRun(count: number, bitsize: number): number[] {
+		this.assertBounds(count * bitsize)
+		const values: number[] = []
+		for (let i = 0; i < count; i++) values.push(this.readBits(bitsize))
+		return values
+	}
+
+	/** read a run of `count` signed integers, each occupying `bitsize` number of bits, in two's complement representation */
+	readSignedRun(count: number, bitsize: number): number[] {
+		this.assertBounds(count * bitsize)
+		const values: number[] = []
+		for (let i = 0; i < count; i++) values.push(this.readSigned(bitsize))
+		return values
+	}
+
+	/** skip the remaining bits of a partially read byte, so that the next read begins at a byte boundary */
+	align(): this {
+		this.bitpos = this.bytesize * 8
+		return this
+	}
+}
@@ -0,0 +1,335 @@
+/** utility functions for compressing and decompressing bytes with DEFLATE, in either of its raw, zlib, or gzip framings. <br>
+ * the native `CompressionStream` and `DecompressionStream` web apis are used when they are available.
+ * otherwise, decompression falls back to a pure typescript inflater (which verifies the Adler-32 and CRC-32 checksums of the framings),
+ * and compression falls back to emitting uncompressed (stored) DEFLATE blocks, which any inflater can still read.
+ * @module
+*/
+
+import { BitReader } from "./bitpack"
+import { Adler32, Crc32 } from "./crypto"
+import { Decoded } from "./eightpack"
+import { concatBytes } from "./typedbuffer"
+
+/** the supported DEFLATE framings, named identically to the formats of the web `CompressionStream` api
+ * - `"deflate-raw"` a bare DEFLATE stream (RFC 1951)
+ * - `"deflate"` a DEFLATE stream wrapped in the zlib framing, with an Adler-32 checksum (RFC 1950)
+ * - `"gzip"` a DEFLATE stream wrapped in the gzip framing, with a CRC-32 checksum (RFC 1952)
+*/
+export type CompressionFormat = "deflate-raw" | "deflate" | "gzip"
+
+/** the constructor signature of the web `CompressionStream` and `DecompressionStream` classes, which are not a part of typescript's dom library yet */
+type NativeCompressionStreamConstructor = new (format: CompressionFormat) => TransformStream<Uint8Array, Uint8Array>
+
+/** create a native `CompressionStream` or `DecompressionStream` of the given `format`, or return `undefined` if the environment does not support it */
+const nativeStreamOf = (name: "CompressionStream" | "DecompressionStream", format: CompressionFormat): TransformStream<Uint8Array, Uint8Array> | undefined => {
+	const constructor = (globalThis as any)[name] as NativeCompressionStreamConstructor | undefined
+	if (constructor === undefined) return undefined
+	try {
+		return new constructor(format)
+	} catch {
+		// older implementations do not support the `"deflate-raw"` format
+		return undefined
+	}
+}
+
+/** pass `bytes` through a `TransformStream`, and collect all of its output */
+const transformBytes = async (bytes: Uint8Array, stream: TransformStream<Uint8Array, Uint8Array>): Promise<Uint8Array> => {
+	const
+		writer = stream.writable.getWriter(),
+		reader = stream.readable.getReader(),
+		// the output must be read while the input is being written, otherwise backpressure would stall the writer
+		written = writer.write(bytes).then(() => writer.close()),
+		chunks: Uint8Array[] = []
+	written.catch(() => { })
+	while (true) {
+		const { done, value } = await reader.read()
+		if (done) break
+		chunks.push(value)
+	}
+	await written
+	return concatBytes(...chunks)
+}
+
+/** compress `bytes` into the given DEFLATE `format`. <br>
+ * the native `CompressionStream` is used when it is available, otherwise the data is stored uncompressed (see {@link deflateStored})
+ * @example
+ * ```ts
+ * const gzipped_export = await compress(file_parser.encodeObject(obj), "gzip")
+ * ```
+*/
+export const compress = async (bytes: Uint8Array, format: CompressionFormat = "deflate"): Promise<Uint8Array> => {
+	const stream = nativeStreamOf("CompressionStream", format)
+	return stream === undefined ? deflateStored(bytes, format) : transformBytes(bytes, stream)
+}
+
+/** decompress `bytes` of the given DEFLATE `format`. <br>
+ * the native `DecompressionStream` is used when it is available, otherwise the pure typescript {@link inflate} is used
+*/
+export const decompress = async (bytes: Uint8Array, format: CompressionFormat = "deflate"): Promise<Uint8Array> => {
+	const stream = nativeStreamOf("DecompressionStream", format)
+	return stream === undefined ? inflate(bytes, format) : transformBytes(bytes, stream)
+}
+
+/// DEFLATE FRAMING
+
+/** the largest number of bytes that a single stored (uncompressed) DEFLATE block can hold */
+const max_stored_block_size = 0xFFFF
+
+/** encode `bytes` into the given DEFLATE `format`, using only stored (uncompressed) blocks. <br>
+ * the output is slightly larger than the input, but it is a fully valid stream that any inflater can decompress
+*/
+export const deflateStored = (bytes: Uint8Array, format: CompressionFormat = "deflate"): Uint8Array => {
+	const
+		len = bytes.length,
+		block_count = Math.max(Math.ceil(len / max_stored_block_size), 1),
+		raw = new Uint8Array(len + block_count * 5),
+		view = new DataView(raw.buffer)
+	let offset = 0
+	for (let block = 0; block < block_count; block++) {
+		const
+			start = block * max_stored_block_size,
+			block_len = Math.min(len - start, max_stored_block_size)
+		// the 3 header bits (`BFINAL` and `BTYPE = 00`) get padded to a full byte, followed by `LEN` and its one's complement `NLEN`
+		raw[offset] = block === block_count - 1 ? 1 : 0
+		view.setUint16(offset + 1, block_len, true)
+		view.setUint16(offset + 3, ~block_len & 0xFFFF, true)
+		raw.set(bytes.subarray(start, start + block_len), offset + 5)
+		offset += 5 + block_len
+	}
+	switch (format) {
+		case "deflate-raw": return raw
+		case "deflate": {
+			const trailer = new Uint8Array(4)
+			new DataView(trailer.buffer).setUint32(0, Adler32(bytes))
+			// `CMF = 0x78` (deflate with a 32kb window), and `FLG = 0x01` (fastest compression level, and a header that is a multiple of 31)
+			return concatBytes([0x78, 0x01], raw, trailer)
+		}
+		case "gzip": {
+			const trailer = new Uint8Array(8)
+			new DataView(trailer.buffer).setUint32(0, Crc32(bytes), true)
+			new DataView(trailer.buffer).setUint32(4, len >>> 0, true)
+			// magic number, compression method (deflate), no flags, no modification time, no extra flags, and an unknown operating system
+			return concatBytes([0x1F, 0x8B, 0x08, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0xFF], raw, trailer)
+		}
+	}
+}
+
+/** decompress `bytes` of the given DEFLATE `format` using the pure typescript inflater, and verify the checksum of the framing (if any). <br>
+ * gzip data that consists of multiple concatenated members is decompressed entirely.
+ * an error is thrown if the data is malformed, truncated, or fails its checksum
+*/
+export const inflate = (bytes: Uint8Array, format: CompressionFormat = "deflate"): Uint8Array => {
+	switch (format) {
+		case "deflate-raw": return inflateRaw(bytes, 0)[0]
+		case "deflate": return unzlib(bytes)
+		case "gzip": return gunzip(bytes)
+	}
+}
+
+/** decompress zlib framed data, and verify its Adler-32 checksum */
+const unzlib = (bytes: Uint8Array): Uint8Array => {
+	const [cmf, flg] = bytes
+	if (bytes.length < 6 || (cmf & 0x0F) !== 8 || ((cmf << 8) | flg) % 31 !== 0) throw new Error("invalid zlib header")
+	if (flg & 0x20) throw new Error("zlib streams with a preset dictionary are not supported")
+	const [data, bytesize] = inflateRaw(bytes, 2)
+	if (bytes.length < 2 + bytesize + 4) throw new RangeError("zlib stream ended before its adler-32 checksum")
+	const
+		expected = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(2 + bytesize),
+		actual = Adler32(data)
+	if (actual !== expected) throw new Error(`zlib adler-32 checksum mismatch: expected 0x${expected.toString(16)}, but computed 0x${actual.toString(16)}`)
+	return data
+}
+
+/** the flag bits of a gzip member header */
+const gzip_flags = {
+	header_crc: 0x02,
+	extra: 0x04,
+	name: 0x08,
+	comment: 0x10,
+}
+
+/** decompress gzip framed data (possibly consisting of multiple members), and verify the CRC-32 checksum and size of each member */
+const gunzip = (bytes: Uint8Array): Uint8Array => {
+	const
+		view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength),
+		members: Uint8Array[] = []
+	let offset = 0
+	do {
+		if (bytes[offset] !== 0x1F || bytes[offset + 1] !== 0x8B || bytes[offset + 2] !== 0x08) throw new Error(`invalid gzip member header at offset ${offset}`)
+		const flags = bytes[offset + 3]
+		offset += 10
+		if (flags & gzip_flags.extra) offset += 2 + view.getUint16(offset, true)
+		if (flags & gzip_flags.name) offset = bytes.indexOf(0x00, offset) + 1
+		if (flags & gzip_flags.comment) offset = bytes.indexOf(0x00, offset) + 1
+		if (flags & gzip_flags.header_crc) offset += 2
+		if (offset <= 0 || offset > bytes.length) throw new RangeError("gzip stream ended within a member header")
+		const [data, bytesize] = inflateRaw(bytes, offset)
+		offset += bytesize
+		if (bytes.length < offset + 8) throw new RangeError("gzip stream ended before a member's crc-32 checksum")
+		const
+			expected_crc = view.getUint32(offset, true),
+			expected_size = view.getUint32(offset + 4, true),
+			actual_crc = Crc32(data)
+		if (actual_crc !== expected_crc) throw new Error(`gzip crc-32 checksum mismatch: expected 0x${expected_crc.toString(16)}, but computed 0x${actual_crc.toString(16)}`)
+		if ((data.length >>> 0) !== expected_size) throw new Error(`gzip size mismatch: expected ${expected_size} bytes (modulo 2 ** 32), but decompressed ${data.length} bytes`)
+		members.push(data)
+		offset += 8
+	} while (offset < bytes.length && bytes[offset] === 0x1F)
+	return members.length === 1 ? members[0] : concatBytes(...members)
+}
+
+/// INFLATE
+
+/** a canonical huffman code, described by the number of codes of each bit length, and its symbols sorted by their codes */
+interface Huffman {
+	/** `counts[len]` is the number of codes that are `len` bits long */
+	counts: Uint16Array
+	/** the symbols, sorted by their code lengths first, and by their values second */
+	symbols: Uint16Array
+}
+
+const
+	max_code_length = 15,
+	length_bases = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258],
+	length_extra_bits = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0],
+	distance_bases = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577],
+	distance_extra_bits = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13],
+	/** the order in which the code lengths of the code length alphabet are stored in a dynamic block header */
+	code_length_order = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15]
+
+/** build a canonical {@link Huffman} code from the code `lengths` of each symbol (where a length of `0` means that the symbol is unused) */
+const huffmanOf = (lengths: ArrayLike<number>): Huffman => {
+	const
+		counts = new Uint16Array(max_code_length + 1),
+		offsets = new Uint16Array(max_code_length + 2),
+		symbols = new Uint16Array(lengths.length)
+	for (let symbol = 0; symbol < lengths.length; symbol++) counts[lengths[symbol]]++
+	counts[0] = 0
+	for (let len = 1; len <= max_code_length; len++) offsets[len + 1] = offsets[len] + counts[len]
+	for (let symbol = 0; symbol < lengths.length; symbol++) if (lengths[symbol] !== 0) symbols[offsets[lengths[symbol]]++] = symbol
+	return { counts, symbols }
+}
+
+/** decode a single huffman coded symbol, one bit at a time. <br>
+ * canonical codes of the same length are consecutive integers, so the code is compared against the range of codes of each successive length
+*/
+const decodeSymbol = (reader: BitReader, huffman: Huffman): number => {
+	const { counts, symbols } = huffman
+	let
+		code = 0,
+		first = 0,
+		index = 0
+	for (let len = 1; len <= max_code_length; len++) {
+		// huffman codes are packed starting from their most significant bit, unlike all other DEFLATE fields
+		code |= reader.readBits(1)
+		const count = counts[len]
+		if (code - first < count) return symbols[index + code - first]
+		index += count
+		first = (first + count) << 1
+		code <<= 1
+	}
+	throw new Error("invalid huffman code in deflate stream")
+}
+
+let fixed_huffman: [literals: Huffman, distances: Huffman] | undefined
+
+/** get the fixed huffman codes of DEFLATE's block type `1`, building them the first time they are needed */
+const fixedHuffmanOf = (): [literals: Huffman, distances: Huffman] => {
+	if (fixed_huffman === undefined) {
+		const lengths = new Uint8Array(288)
+		lengths.fill(8, 0, 144).fill(9, 144, 256).fill(7, 256, 280).fill(8, 280, 288)
+		fixed_huffman = [huffmanOf(lengths), huffmanOf(new Uint8Array(30).fill(5))]
+	}
+	return fixed_huffman
+}
+
+/** read the huffman codes of a dynamic block (block type `2`) from its header */
+const readDynamicHuffman = (reader: BitReader): [literals: Huffman, distances: Huffman] => {
+	const
+		literal_count = reader.readBits(5) + 257,
+		distance_count = reader.readBits(5) + 1,
+		code_length_count = reader.readBits(4) + 4,
+		code_length_lengths = new Uint8Array(19),
+		lengths = new Uint8Array(literal_count + distance_count)
+	for (let i = 0; i < code_length_count; i++) code_length_lengths[code_length_order[i]] = reader.readBits(3)
+	const code_length_huffman = huffmanOf(code_length_lengths)
+	for (let i = 0; i < lengths.length;) {
+		const symbol = decodeSymbol(reader, code_length_huffman)
+		if (symbol < 16) {
+			lengths[i++] = symbol
+			continue
+		}
+		// symbol `16` repeats the previous length 3 to 6 times, while `17` and `18` repeat zero 3 to 10, and 11 to 138 times respectively
+		const
+			[repeated_length, repeat] =
+				symbol === 16 ? [lengths[i - 1], 3 + reader.readBits(2)] :
+					symbol === 17 ? [0, 3 + reader.readBits(3)] :
+						[0, 11 + reader.readBits(7)]
+		if (symbol === 16 && i === 0) throw new Error("deflate stream repeats a code length before any has been given")
+		if (i + repeat > lengths.length) throw new Error("deflate stream has more code lengths than declared")
+		lengths.fill(repeated_length, i, i + repeat)
+		i += repeat
+	}
+	return [huffmanOf(lengths.subarray(0, literal_count)), huffmanOf(lengths.subarray(literal_count))]
+}
+
+/** decompress a raw DEFLATE stream that begins at `offset` of `buf`, using a pure typescript inflater. <br>
+ * the returned bytesize is the number of compressed bytes that were consumed (including the padding bits of the final byte),
+ * so that any trailing data (such as a zlib or gzip checksum) can be located.
+*/
+export const inflateRaw = (buf: Uint8Array, offset: number = 0): Decoded<Uint8Array> => {
+	let
+		reader = new BitReader(buf, offset, "lsb"),
+		out = new Uint8Array(Math.max(buf.length * 4, 1024)),
+		out_len = 0,
+		is_final_block = false
+	/** ensure that the output buffer has room for `bytesize` more bytes */
+	const reserve = (bytesize: number) => {
+		if (out_len + bytesize <= out.length) return
+		const grown = new Uint8Array(Math.max(out.length * 2, out_len + bytesize))
+		grown.set(out.subarray(0, out_len))
+		out = grown
+	}
+	while (!is_final_block) {
+		is_final_block = reader.readBits(1) === 1
+		const block_type = reader.readBits(2)
+		if (block_type === 0) {
+			reader.align()
+			const
+				len = reader.readBits(16),
+				nlen = reader.readBits(16),
+				start = reader.offset + reader.bytesize
+			if (len !== (~nlen & 0xFFFF)) throw new Error("corrupt stored block length in deflate stream")
+			if (start + len > buf.length) throw new RangeError("deflate stream ended within a stored block")
+			reserve(len)
+			out.set(buf.subarray(start, start + len), out_len)
+			out_len += len
+			// the stored bytes are skipped over by resuming the reading right after them
+			reader = new BitReader(buf, start + len, "lsb")
+			continue
+		}
+		if (block_type === 3) throw new Error("invalid block type in deflate stream")
+		const [literals, distances] = block_type === 1 ? fixedHuffmanOf() : readDynamicHuffman(reader)
+		while (true) {
+			const symbol = decodeSymbol(reader, literals)
+			if (symbol < 256) {
+				reserve(1)
+				out[out_len++] = symbol
+				continue
+			}
+			if (symbol === 256) break
+			const length_code = symbol - 257
+			if (length_code >= length_bases.length) throw new Error("invalid length symbol in deflate stream")
+			const
+				length = length_bases[length_code] + reader.readBits(length_extra_bits[length_code]),
+				distance_code = decodeSymbol(reader, distances)
+			if (distance_code >= distance_bases.length) throw new Error("invalid distance symbol in deflate stream")
+			const distance = distance_bases[distance_code] + reader.readBits(distance_extra_bits[distance_code])
+			if (distance > out_len) throw new Error(`deflate stream refers back ${distance} bytes, but only ${out_len} bytes have been decompressed`)
+			reserve(length)
+			// the copy must be done byte by byte, since the source and destination ranges may overlap (ie when `distance < length`)
+			for (let i = 0; i < length; i++, out_len++) out[out_len] = out[out_len - distance]
+		}
+	}
+	return [out.slice(0, out_len), reader.offset + reader.bytesize - offset]
+}
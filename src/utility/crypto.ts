@@ -1,7 +1,9 @@
-/** utility functions for cryptography
+/** utility functions for cryptography, checksums, and non-cryptographic hashing
  * @module
 */
 
+import { concatBytes } from "./typedbuffer"
+
 let crc32_table: Int32Array
 const init_crc32_table = () => {
 	crc32_table = new Int32Array(256)
@@ -36,3 +38,876 @@ export const Crc32 = (bytes: Uint8Array | Array<number>, crc?: number) => {
 	for (let i = 0; i < bytes.length; ++i) crc = crc32_table[(crc ^ bytes[i]) & 0xFF] ^ (crc >>> 8)
 	return (crc ^ -1) >>> 0
 }
+
+let crc32c_table: Int32Array
+const init_crc32c_table = () => {
+	crc32c_table = new Int32Array(256)
+	// the reflected Castagnoli polynomial `0x82F63B78`
+	const polynomial = 0x82F63B78 | 0
+	for (let i = 0; i < 256; i++) {
+		let r = i
+		for (let bit = 8; bit > 0; --bit)
+			r = ((r & 1) ? ((r >>> 1) ^ polynomial) : (r >>> 1))
+		crc32c_table[i] = r
+	}
+}
+
+/** the CRC-32C (Castagnoli) hash has better error detection properties than {@link Crc32}, and is used by iSCSI, SCTP, ext4, and many storage formats. <br>
+ * just like {@link Crc32}, you can continue off with the previous partial byte array's crc-hash using the second argument.
+ * @example
+ * ```ts
+ * Crc32c(new TextEncoder().encode("123456789")) // == 0xE3069283
+ * ```
+ * @param bytes an array of bytes to compute the hash for
+ * @param crc provide any previous crc hash that you'd like to continue from, or leave it `undefined` to begin from the standard value of `0xFFFFFFFF` by default
+*/
+export const Crc32c = (bytes: Uint8Array | Array<number>, crc?: number) => {
+	crc = crc === undefined ? 0xFFFFFFFF : crc ^ -1
+	if (crc32c_table === undefined) init_crc32c_table()
+	for (let i = 0; i < bytes.length; ++i) crc = crc32c_table[(crc ^ bytes[i]) & 0xFF] ^ (crc >>> 8)
+	return (crc ^ -1) >>> 0
+}
+
+/** the parameters of a CRC-16 algorithm, in the style of the "catalogue of parametrised CRC algorithms" */
+interface Crc16Params {
+	/** the generator polynomial, in normal (non-reflected) bit order */
+	poly: number
+	/** the initial value of the register */
+	init: number
+	/** whether the input bytes and the output value are bit-reflected */
+	reflected: boolean
+	/** the value that the final register gets xor-ed with */
+	xorout: number
+}
+
+/** the supported CRC-16 variants. the check value of each (ie the hash of the ascii string `"123456789"`) is given in parentheses
+ * - `"ccitt-false"` also known as CRC-16/IBM-3740 (`0x29B1`)
+ * - `"xmodem"` also known as CRC-16/ZMODEM and CRC-16/ACORN (`0x31C3`)
+ * - `"kermit"` also known as CRC-16/CCITT-TRUE (`0x2189`)
+ * - `"x25"` also known as CRC-16/IBM-SDLC, used by HDLC (`0x906E`)
+ * - `"arc"` also known as CRC-16/IBM and CRC-16/LHA (`0xBB3D`)
+ * - `"modbus"` used by the Modbus RTU protocol (`0x4B37`)
+*/
+export type Crc16Variant = "ccitt-false" | "xmodem" | "kermit" | "x25" | "arc" | "modbus"
+
+const crc16_params: Record<Crc16Variant, Crc16Params> = {
+	"ccitt-false": { poly: 0x1021, init: 0xFFFF, reflected: false, xorout: 0x0000 },
+	"xmodem": { poly: 0x1021, init: 0x0000, reflected: false, xorout: 0x0000 },
+	"kermit": { poly: 0x1021, init: 0x0000, reflected: true, xorout: 0x0000 },
+	"x25": { poly: 0x1021, init: 0xFFFF, reflected: true, xorout: 0xFFFF },
+	"arc": { poly: 0x8005, init: 0x0000, reflected: true, xorout: 0x0000 },
+	"modbus": { poly: 0x8005, init: 0xFFFF, reflected: true, xorout: 0x0000 },
+}
+
+/** the lazily built lookup tables of each CRC-16 variant */
+const crc16_tables: Partial<Record<Crc16Variant, Uint16Array>> = {}
+
+/** reverse the order of the lowest `bitsize` bits of `value` */
+const reflectBits = (value: number, bitsize: number): number => {
+	let reflected = 0
+	for (let bit = 0; bit < bitsize; bit++) reflected |= ((value >>> bit) & 1) << (bitsize - 1 - bit)
+	return reflected >>> 0
+}
+
+const init_crc16_table = (variant: Crc16Variant): Uint16Array => {
+	const
+		{ poly, reflected } = crc16_params[variant],
+		table = new Uint16Array(256)
+	if (reflected) {
+		const polynomial = reflectBits(poly, 16)
+		for (let i = 0; i < 256; i++) {
+			let r = i
+			for (let bit = 8; bit > 0; --bit) r = (r & 1) ? ((r >>> 1) ^ polynomial) : (r >>> 1)
+			table[i] = r
+		}
+	} else {
+		for (let i = 0; i < 256; i++) {
+			let r = i << 8
+			for (let bit = 8; bit > 0; --bit) r = (r & 0x8000) ? ((r << 1) ^ poly) : (r << 1)
+			table[i] = r
+		}
+	}
+	return crc16_tables[variant] = table
+}
+
+/** the CRC-16 family of hashes are commonly found in serial communication protocols, file transfer protocols, and embedded device packets. <br>
+ * the desired `variant` must be specified (see {@link Crc16Variant}), since they differ in their polynomials, initial values, bit orders, and final xor values. <br>
+ * just like {@link Crc32}, you can continue off with the previous partial byte array's crc-hash using the second argument.
+ * @example
+ * ```ts
+ * const
+ * 	txtenc = new TextEncoder(),
+ * 	crc_a = Crc16(txtenc.encode("12345"), undefined, "modbus"),
+ * 	crc_b = Crc16(txtenc.encode("6789"), crc_a, "modbus") // == 0x4B37
+ * ```
+ * @param bytes an array of bytes to compute the hash for
+ * @param crc provide any previous crc hash (of the same `variant`) that you'd like to continue from, or leave it `undefined` to begin from the variant's standard initial value
+ * @param variant the CRC-16 variant to compute. defaults to `"ccitt-false"`
+*/
+export const Crc16 = (bytes: Uint8Array | Array<number>, crc?: number, variant: Crc16Variant = "ccitt-false") => {
+	const
+		{ init, reflected, xorout } = crc16_params[variant],
+		table = crc16_tables[variant] ?? init_crc16_table(variant)
+	crc = crc === undefined ? init : crc ^ xorout
+	if (reflected) for (let i = 0; i < bytes.length; ++i) crc = table[(crc ^ bytes[i]) & 0xFF] ^ (crc >>> 8)
+	else for (let i = 0; i < bytes.length; ++i) crc = (table[((crc >>> 8) ^ bytes[i]) & 0xFF] ^ (crc << 8)) & 0xFFFF
+	return (crc ^ xorout) & 0xFFFF
+}
+
+/** the Adler-32 checksum is faster to compute than {@link Crc32}, at the cost of weaker error detection. it is the checksum used by zlib streams. <br>
+ * you can continue off with the previous partial byte array's checksum using the second argument.
+ * @example
+ * ```ts
+ * Adler32(new TextEncoder().encode("Wikipedia")) // == 0x11E60398
+ * ```
+ * @param bytes an array of bytes to compute the checksum for
+ * @param adler provide any previous checksum that you'd like to continue from, or leave it `undefined` to begin from the standard value of `1` by default
+*/
+export const Adler32 = (bytes: Uint8Array | Array<number>, adler?: number) => {
+	const
+		mod = 65521,
+		// the largest number of bytes that can be summed before `b` could exceed `2 ** 32`, thus deferring the costly modulo operation
+		nmax = 5552
+	let
+		a = adler === undefined ? 1 : adler & 0xFFFF,
+		b = adler === undefined ? 0 : adler >>> 16
+	for (let start = 0; start < bytes.length; start += nmax) {
+		const end = Math.min(start + nmax, bytes.length)
+		for (let i = start; i < end; i++) {
+			a += bytes[i]
+			b += a
+		}
+		a %= mod
+		b %= mod
+	}
+	return ((b << 16) | a) >>> 0
+}
+
+/** the 32-bit FNV-1a hash is a tiny non-cryptographic hash, suitable for hash tables and quick fingerprinting of short keys. <br>
+ * you can continue off with the previous partial byte array's hash using the second argument.
+ * @example
+ * ```ts
+ * Fnv1a32(new TextEncoder().encode("a")) // == 0xE40C292C
+ * ```
+ * @param bytes an array of bytes to compute the hash for
+ * @param hash provide any previous hash that you'd like to continue from, or leave it `undefined` to begin from the standard offset basis of `0x811C9DC5` by default
+*/
+export const Fnv1a32 = (bytes: Uint8Array | Array<number>, hash?: number) => {
+	hash = hash === undefined ? 0x811C9DC5 : hash
+	// the FNV prime is `0x01000193`
+	for (let i = 0; i < bytes.length; ++i) hash = Math.imul(hash ^ bytes[i], 0x01000193)
+	return hash >>> 0
+}
+
+/** the 64-bit FNV-1a hash, for when the 32-bit {@link Fnv1a32} hash is too collision-prone. <br>
+ * the 64-bit arithmetic is carried out over four 16-bit limbs, and only the final hash is converted to a `bigint`. <br>
+ * you can continue off with the previous partial byte array's hash using the second argument.
+ * @example
+ * ```ts
+ * Fnv1a64(new TextEncoder().encode("a")) // == 0xAF63DC4C8601EC8Cn
+ * ```
+ * @param bytes an array of bytes to compute the hash for
+ * @param hash provide any previous hash that you'd like to continue from, or leave it `undefined` to begin from the standard offset basis of `0xCBF29CE484222325` by default
+*/
+export const Fnv1a64 = (bytes: Uint8Array | Array<number>, hash?: bigint): bigint => {
+	hash = hash === undefined ? 0xCBF29CE484222325n : BigInt.asUintN(64, hash)
+	let
+		h0 = Number(hash & 0xFFFFn),
+		h1 = Number((hash >> 16n) & 0xFFFFn),
+		h2 = Number((hash >> 32n) & 0xFFFFn),
+		h3 = Number((hash >> 48n) & 0xFFFFn)
+	for (let i = 0; i < bytes.length; ++i) {
+		h0 ^= bytes[i]
+		// multiply by the FNV prime `0x00000100000001B3`, which is `2 ** 40 + 0x1B3`
+		const
+			t0 = h0 * 0x1B3,
+			t1 = h1 * 0x1B3 + (t0 >>> 16),
+			t2 = h2 * 0x1B3 + (t1 >>> 16) + ((h0 << 8) & 0xFFFF),
+			t3 = h3 * 0x1B3 + (t2 >>> 16) + (h0 >>> 8) + (h1 << 8)
+		h0 = t0 & 0xFFFF
+		h1 = t1 & 0xFFFF
+		h2 = t2 & 0xFFFF
+		h3 = t3 & 0xFFFF
+	}
+	return (BigInt((h3 << 16 | h2) >>> 0) << 32n) | BigInt((h1 << 16 | h0) >>> 0)
+}
+
+const
+	xxh32_prime1 = 0x9E3779B1,
+	xxh32_prime2 = 0x85EBCA77,
+	xxh32_prime3 = 0xC2B2AE3D,
+	xxh32_prime4 = 0x27D4EB2F,
+	xxh32_prime5 = 0x165667B1
+
+/** rotate the bits of a 32-bit integer to the left by `bits` */
+const rotl32 = (value: number, bits: number): number => (value << bits) | (value >>> (32 - bits))
+
+/** a single xxHash32 accumulator round */
+const xxh32Round = (acc: number, lane: number): number => Math.imul(rotl32((acc + Math.imul(lane, xxh32_prime2)) | 0, 13), xxh32_prime1)
+
+/** the intermediate state of an xxHash32 computation, which lets a message be hashed in pieces. see {@link XxHash32Update} */
+export interface XxHash32State {
+	/** the seed of the hash function */
+	seed: number
+	/** the four lane accumulators */
+	acc: [v1: number, v2: number, v3: number, v4: number]
+	/** the total number of bytes fed to the hash so far */
+	total_length: number
+	/** the trailing bytes that do not make up a complete 16 byte stripe yet */
+	pending: Uint8Array
+}
+
+/** create the initial state of an xxHash32 computation with the given `seed`, which defaults to `0` */
+export const XxHash32Init = (seed: number = 0): XxHash32State => ({
+	seed: seed | 0,
+	acc: [(seed + xxh32_prime1 + xxh32_prime2) | 0, (seed + xxh32_prime2) | 0, seed | 0, (seed - xxh32_prime1) | 0],
+	total_length: 0,
+	pending: new Uint8Array(0),
+})
+
+/** consume a single 16 byte stripe, beginning at the `offset` of a `view`, into the lane accumulators `acc`
+ * @inplace
+*/
+const xxh32Stripe = (acc: XxHash32State["acc"], view: DataView, offset: number): void => {
+	acc[0] = xxh32Round(acc[0], view.getUint32(offset, true))
+	acc[1] = xxh32Round(acc[1], view.getUint32(offset + 4, true))
+	acc[2] = xxh32Round(acc[2], view.getUint32(offset + 8, true))
+	acc[3] = xxh32Round(acc[3], view.getUint32(offset + 12, true))
+}
+
+/** feed the next piece of a message `bytes` into an xxHash32 `state`, and get the resulting state. <br>
+ * this lets you continue off with the previous partial byte array's state, just like the other hashes of this module.
+ * however, xxHash's final avalanche step cannot be undone, thus the state has to be carried instead of the hash itself, and then finalized via {@link XxHash32Digest}. <br>
+ * the provided `state` is not modified, so it can be continued off from more than once.
+ * @example
+ * ```ts
+ * const
+ * 	text = new TextEncoder(),
+ * 	state = XxHash32Update(text.encode("ab"))
+ * XxHash32Digest(XxHash32Update(text.encode("c"), state)) // == 0x32D153FF, which is the same as `XxHash32(text.encode("abc"))`
+ * ```
+ * @param bytes an array of bytes to feed into the hash
+ * @param state provide any previous state that you'd like to continue from, or leave it `undefined` to begin from a new state with a seed of `0`
+*/
+export const XxHash32Update = (bytes: Uint8Array, state: XxHash32State = XxHash32Init()): XxHash32State => {
+	const
+		len = bytes.length,
+		acc: XxHash32State["acc"] = [...state.acc],
+		total_length = state.total_length + len,
+		pending = state.pending
+	if (pending.length + len < 16) return { seed: state.seed, acc, total_length, pending: concatBytes(pending, bytes) }
+	let i = 0
+	if (pending.length > 0) {
+		// the pending bytes are completed into a full stripe first
+		i = 16 - pending.length
+		xxh32Stripe(acc, new DataView(concatBytes(pending, bytes.subarray(0, i)).buffer), 0)
+	}
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+	for (; i + 16 <= len; i += 16) xxh32Stripe(acc, view, i)
+	return { seed: state.seed, acc, total_length, pending: bytes.slice(i) }
+}
+
+/** finalize an xxHash32 `state` (see {@link XxHash32Update}) into the hash of all the bytes that were fed to it. the `state` is not modified */
+export const XxHash32Digest = (state: XxHash32State): number => {
+	const
+		{ seed, acc: [v1, v2, v3, v4], total_length, pending } = state,
+		len = pending.length,
+		view = new DataView(pending.buffer, pending.byteOffset, pending.byteLength)
+	let
+		i = 0,
+		hash = total_length >= 16 ?
+			(rotl32(v1, 1) + rotl32(v2, 7) + rotl32(v3, 12) + rotl32(v4, 18)) | 0 :
+			(seed + xxh32_prime5) | 0
+	hash = (hash + total_length) | 0
+	for (; i + 4 <= len; i += 4) hash = Math.imul(rotl32((hash + Math.imul(view.getUint32(i, true), xxh32_prime3)) | 0, 17), xxh32_prime4)
+	for (; i < len; i++) hash = Math.imul(rotl32((hash + Math.imul(pending[i], xxh32_prime5)) | 0, 11), xxh32_prime1)
+	// the final avalanche mixes the bits of the hash thoroughly
+	hash = Math.imul(hash ^ (hash >>> 15), xxh32_prime2)
+	hash = Math.imul(hash ^ (hash >>> 13), xxh32_prime3)
+	return (hash ^ (hash >>> 16)) >>> 0
+}
+
+/** the 32-bit xxHash is an extremely fast non-cryptographic hash with excellent dispersion, commonly used for content fingerprinting (such as in LZ4 frames). <br>
+ * this computes the hash of a whole byte array at once. for hashing a message in pieces, use {@link XxHash32Update} and {@link XxHash32Digest} instead.
+ * the `seed` may be used for deriving independent hash functions.
+ * @example
+ * ```ts
+ * XxHash32(new TextEncoder().encode("abc")) // == 0x32D153FF
+ * ```
+ * @param bytes an array of bytes to compute the hash for
+ * @param seed the seed of the hash function. defaults to `0`
+*/
+export const XxHash32 = (bytes: Uint8Array, seed: number = 0) => XxHash32Digest(XxHash32Update(bytes, XxHash32Init(seed)))
+
+const
+	xxh64_prime1 = 0x9E3779B185EBCA87n,
+	xxh64_prime2 = 0xC2B2AE3D27D4EB4Fn,
+	xxh64_prime3 = 0x165667B19E3779F9n,
+	xxh64_prime4 = 0x85EBCA77C2B2AE63n,
+	xxh64_prime5 = 0x27D4EB2F165667C5n
+
+/** truncate a `bigint` to an unsigned 64-bit integer */
+const u64 = (value: bigint): bigint => BigInt.asUintN(64, value)
+
+/** rotate the bits of an unsigned 64-bit integer to the left by `bits` */
+const rotl64 = (value: bigint, bits: bigint): bigint => u64((value << bits) | (value >> (64n - bits)))
+
+/** a single xxHash64 accumulator round */
+const xxh64Round = (acc: bigint, lane: bigint): bigint => u64(rotl64(u64(acc + lane * xxh64_prime2), 31n) * xxh64_prime1)
+
+/** merge an xxHash64 accumulator `value` into the `hash` */
+const xxh64Merge = (hash: bigint, value: bigint): bigint => u64((hash ^ xxh64Round(0n, value)) * xxh64_prime1 + xxh64_prime4)
+
+/** the intermediate state of an xxHash64 computation, which lets a message be hashed in pieces. see {@link XxHash64Update} */
+export interface XxHash64State {
+	/** the seed of the hash function */
+	seed: bigint
+	/** the four lane accumulators */
+	acc: [v1: bigint, v2: bigint, v3: bigint, v4: bigint]
+	/** the total number of bytes fed to the hash so far */
+	total_length: number
+	/** the trailing bytes that do not make up a complete 32 byte stripe yet */
+	pending: Uint8Array
+}
+
+/** create the initial state of an xxHash64 computation with the given `seed`, which defaults to `0n` */
+export const XxHash64Init = (seed: bigint = 0n): XxHash64State => {
+	seed = u64(seed)
+	return {
+		seed,
+		acc: [u64(seed + xxh64_prime1 + xxh64_prime2), u64(seed + xxh64_prime2), seed, u64(seed - xxh64_prime1)],
+		total_length: 0,
+		pending: new Uint8Array(0),
+	}
+}
+
+/** consume a single 32 byte stripe, beginning at the `offset` of a `view`, into the lane accumulators `acc`
+ * @inplace
+*/
+const xxh64Stripe = (acc: XxHash64State["acc"], view: DataView, offset: number): void => {
+	acc[0] = xxh64Round(acc[0], view.getBigUint64(offset, true))
+	acc[1] = xxh64Round(acc[1], view.getBigUint64(offset + 8, true))
+	acc[2] = xxh64Round(acc[2], view.getBigUint64(offset + 16, true))
+	acc[3] = xxh64Round(acc[3], view.getBigUint64(offset + 24, true))
+}
+
+/** feed the next piece of a message `bytes` into an xxHash64 `state`, and get the resulting state. <br>
+ * this is the 64-bit counterpart of {@link XxHash32Update}, and the resulting state is finalized via {@link XxHash64Digest}.
+ * the provided `state` is not modified, so it can be continued off from more than once.
+ * @param bytes an array of bytes to feed into the hash
+ * @param state provide any previous state that you'd like to continue from, or leave it `undefined` to begin from a new state with a seed of `0n`
+*/
+export const XxHash64Update = (bytes: Uint8Array, state: XxHash64State = XxHash64Init()): XxHash64State => {
+	const
+		len = bytes.length,
+		acc: XxHash64State["acc"] = [...state.acc],
+		total_length = state.total_length + len,
+		pending = state.pending
+	if (pending.length + len < 32) return { seed: state.seed, acc, total_length, pending: concatBytes(pending, bytes) }
+	let i = 0
+	if (pending.length > 0) {
+		// the pending bytes are completed into a full stripe first
+		i = 32 - pending.length
+		xxh64Stripe(acc, new DataView(concatBytes(pending, bytes.subarray(0, i)).buffer), 0)
+	}
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+	for (; i + 32 <= len; i += 32) xxh64Stripe(acc, view, i)
+	return { seed: state.seed, acc, total_length, pending: bytes.slice(i) }
+}
+
+/** finalize an xxHash64 `state` (see {@link XxHash64Update}) into the hash of all the bytes that were fed to it. the `state` is not modified */
+export const XxHash64Digest = (state: XxHash64State): bigint => {
+	const
+		{ seed, acc: [v1, v2, v3, v4], total_length, pending } = state,
+		len = pending.length,
+		view = new DataView(pending.buffer, pending.byteOffset, pending.byteLength)
+	let
+		i = 0,
+		hash: bigint
+	if (total_length >= 32) {
+		hash = u64(rotl64(v1, 1n) + rotl64(v2, 7n) + rotl64(v3, 12n) + rotl64(v4, 18n))
+		hash = xxh64Merge(xxh64Merge(xxh64Merge(xxh64Merge(hash, v1), v2), v3), v4)
+	} else hash = u64(seed + xxh64_prime5)
+	hash = u64(hash + BigInt(total_length))
+	for (; i + 8 <= len; i += 8) hash = u64(rotl64(hash ^ xxh64Round(0n, view.getBigUint64(i, true)), 27n) * xxh64_prime1 + xxh64_prime4)
+	if (i + 4 <= len) {
+		hash = u64(rotl64(hash ^ u64(BigInt(view.getUint32(i, true)) * xxh64_prime1), 23n) * xxh64_prime2 + xxh64_prime3)
+		i += 4
+	}
+	for (; i < len; i++) hash = u64(rotl64(hash ^ u64(BigInt(pending[i]) * xxh64_prime5), 11n) * xxh64_prime1)
+	hash = u64((hash ^ (hash >> 33n)) * xxh64_prime2)
+	hash = u64((hash ^ (hash >> 29n)) * xxh64_prime3)
+	return hash ^ (hash >> 32n)
+}
+
+/** the 64-bit xxHash, for when the 32-bit {@link XxHash32} hash is too collision-prone. <br>
+ * it is computed with `bigint` arithmetic, thus it is considerably slower than {@link XxHash32}.
+ * for hashing a message in pieces, use {@link XxHash64Update} and {@link XxHash64Digest} instead.
+ * @example
+ * ```ts
+ * XxHash64(new TextEncoder().encode("abc")) // == 0x44BC2CF5AD770999n
+ * ```
+ * @param bytes an array of bytes to compute the hash for
+ * @param seed the seed of the hash function. defaults to `0n`
+*/
+export const XxHash64 = (bytes: Uint8Array, seed: bigint = 0n): bigint => XxHash64Digest(XxHash64Update(bytes, XxHash64Init(seed)))
+
+/// CRYPTOGRAPHIC HASHES
+
+/** the names of the supported cryptographic hash algorithms, which coincide with their names in the WebCrypto api */
+export type HashAlgorithm = "SHA-1" | "SHA-256" | "SHA-512"
+
+/** the base class of incremental hash functions that are based on the Merkle-Damgård construction (such as the SHA family). <br>
+ * the message is fed in pieces via {@link update}, and then the hash is finalized via {@link digest}.
+ * subclasses only need to implement the compression function over a single block, and the extraction of the digest from the state.
+ * they must also call {@link reset} at the end of their constructor, since their state fields do not exist yet while this base constructor runs.
+*/
+export abstract class IncrementalHash {
+	/** the number of bytes in a single block of the compression function */
+	readonly block_size: number
+	/** the number of bytes in the resulting digest */
+	readonly digest_size: number
+	/** the bytes of an incomplete block that are held until more bytes arrive */
+	protected readonly block: Uint8Array
+	/** a `DataView` over {@link block} */
+	protected readonly block_view: DataView
+	/** the number of bytes held in {@link block} */
+	protected block_length: number = 0
+	/** the total number of bytes fed to the hash so far */
+	protected total_length: number = 0
+
+	constructor(block_size: number, digest_size: number) {
+		this.block_size = block_size
+		this.digest_size = digest_size
+		this.block = new Uint8Array(block_size)
+		this.block_view = new DataView(this.block.buffer)
+	}
+
+	/** reset the hash state to its initial value, so that a new message can be hashed */
+	reset(): this {
+		this.block_length = 0
+		this.total_length = 0
+		this.initState()
+		return this
+	}
+
+	/** feed the next piece of the message `bytes` into the hash */
+	update(bytes: Uint8Array): this {
+		const { block, block_size } = this
+		let i = 0
+		this.total_length += bytes.length
+		if (this.block_length > 0) {
+			i = Math.min(block_size - this.block_length, bytes.length)
+			block.set(bytes.subarray(0, i), this.block_length)
+			this.block_length += i
+			if (this.block_length < block_size) return this
+			this.compress(this.block_view, 0)
+			this.block_length = 0
+		}
+		// full blocks are compressed directly from the input, without copying them into the block buffer first
+		const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+		for (; i + block_size <= bytes.length; i += block_size) this.compress(view, i)
+		block.set(bytes.subarray(i), 0)
+		this.block_length = bytes.length - i
+		return this
+	}
+
+	/** finalize the hash and get the digest of the whole message. the hash is then {@link reset}, so that it can be reused */
+	digest(): Uint8Array {
+		const
+			{ block, block_size, block_view } = this,
+			// the message length (in bits) is appended as a big endian integer, which is 8 bytes long for 64 byte blocks, and 16 bytes long for 128 byte blocks
+			length_bytesize = block_size / 8,
+			bit_length = this.total_length * 8
+		block[this.block_length++] = 0x80
+		if (this.block_length > block_size - length_bytesize) {
+			block.fill(0, this.block_length)
+			this.compress(block_view, 0)
+			this.block_length = 0
+		}
+		block.fill(0, this.block_length)
+		block_view.setUint32(block_size - 8, Math.floor(bit_length / 0x100000000))
+		block_view.setUint32(block_size - 4, bit_length >>> 0)
+		this.compress(block_view, 0)
+		const digest = this.stateBytes().slice(0, this.digest_size)
+		this.reset()
+		return digest
+	}
+
+	/** set the hash state to its initial value */
+	protected abstract initState(): void
+
+	/** compress a single block, which begins at the byte `offset` of the `view`, into the hash state */
+	protected abstract compress(view: DataView, offset: number): void
+
+	/** get the hash state as big endian bytes */
+	protected abstract stateBytes(): Uint8Array
+}
+
+/** get the big endian bytes of an array of 32-bit words */
+const bytesOfWords = (words: Int32Array): Uint8Array => {
+	const
+		bytes = new Uint8Array(words.length * 4),
+		view = new DataView(bytes.buffer)
+	for (let i = 0; i < words.length; i++) view.setInt32(i * 4, words[i])
+	return bytes
+}
+
+/** the incremental SHA-1 hash. <br>
+ * SHA-1 is no longer collision resistant, so only use it for compatibility with existing formats and protocols.
+ * @example
+ * ```ts
+ * new Sha1().update(new TextEncoder().encode("abc")).digest() // a9993e364706816aba3e25717850c26c9cd0d89d
+ * ```
+*/
+export class Sha1 extends IncrementalHash {
+	protected readonly state: Int32Array = new Int32Array(5)
+	protected readonly words: Int32Array = new Int32Array(80)
+
+	constructor() {
+		super(64, 20)
+		this.reset()
+	}
+
+	protected initState(): void {
+		this.state.set([0x67452301, 0xEFCDAB89, 0x98BADCFE, 0x10325476, 0xC3D2E1F0])
+	}
+
+	protected compress(view: DataView, offset: number): void {
+		const { state, words: w } = this
+		for (let t = 0; t < 16; t++) w[t] = view.getInt32(offset + t * 4)
+		for (let t = 16; t < 80; t++) w[t] = rotl32(w[t - 3] ^ w[t - 8] ^ w[t - 14] ^ w[t - 16], 1)
+		let [a, b, c, d, e] = state
+		for (let t = 0; t < 80; t++) {
+			const
+				f = t < 20 ? (b & c) | (~b & d) : t < 40 ? b ^ c ^ d : t < 60 ? (b & c) | (b & d) | (c & d) : b ^ c ^ d,
+				k = t < 20 ? 0x5A827999 : t < 40 ? 0x6ED9EBA1 : t < 60 ? 0x8F1BBCDC : 0xCA62C1D6,
+				temp = (rotl32(a, 5) + f + e + k + w[t]) | 0
+			e = d
+			d = c
+			c = rotl32(b, 30)
+			b = a
+			a = temp
+		}
+		state[0] += a
+		state[1] += b
+		state[2] += c
+		state[3] += d
+		state[4] += e
+	}
+
+	protected stateBytes(): Uint8Array {
+		return bytesOfWords(this.state)
+	}
+}
+
+/** the SHA-256 round constants, which are the first 32 bits of the fractional parts of the cube roots of the first 64 primes */
+const sha256_k = Int32Array.of(
+	0x428A2F98, 0x71374491, 0xB5C0FBCF, 0xE9B5DBA5, 0x3956C25B, 0x59F111F1, 0x923F82A4, 0xAB1C5ED5,
+	0xD807AA98, 0x12835B01, 0x243185BE, 0x550C7DC3, 0x72BE5D74, 0x80DEB1FE, 0x9BDC06A7, 0xC19BF174,
+	0xE49B69C1, 0xEFBE4786, 0x0FC19DC6, 0x240CA1CC, 0x2DE92C6F, 0x4A7484AA, 0x5CB0A9DC, 0x76F988DA,
+	0x983E5152, 0xA831C66D, 0xB00327C8, 0xBF597FC7, 0xC6E00BF3, 0xD5A79147, 0x06CA6351, 0x14292967,
+	0x27B70A85, 0x2E1B2138, 0x4D2C6DFC, 0x53380D13, 0x650A7354, 0x766A0ABB, 0x81C2C92E, 0x92722C85,
+	0xA2BFE8A1, 0xA81A664B, 0xC24B8B70, 0xC76C51A3, 0xD192E819, 0xD6990624, 0xF40E3585, 0x106AA070,
+	0x19A4C116, 0x1E376C08, 0x2748774C, 0x34B0BCB5, 0x391C0CB3, 0x4ED8AA4A, 0x5B9CCA4F, 0x682E6FF3,
+	0x748F82EE, 0x78A5636F, 0x84C87814, 0x8CC70208, 0x90BEFFFA, 0xA4506CEB, 0xBEF9A3F7, 0xC67178F2,
+)
+
+/** rotate the bits of a 32-bit integer to the right by `bits` */
+const rotr32 = (value: number, bits: number): number => (value >>> bits) | (value << (32 - bits))
+
+/** the incremental SHA-256 hash
+ * @example
+ * ```ts
+ * new Sha256().update(new TextEncoder().encode("abc")).digest() // ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad
+ * ```
+*/
+export class Sha256 extends IncrementalHash {
+	protected readonly state: Int32Array = new Int32Array(8)
+	protected readonly words: Int32Array = new Int32Array(64)
+
+	constructor() {
+		super(64, 32)
+		this.reset()
+	}
+
+	protected initState(): void {
+		// the first 32 bits of the fractional parts of the square roots of the first 8 primes
+		this.state.set([0x6A09E667, 0xBB67AE85, 0x3C6EF372, 0xA54FF53A, 0x510E527F, 0x9B05688C, 0x1F83D9AB, 0x5BE0CD19])
+	}
+
+	protected compress(view: DataView, offset: number): void {
+		const { state, words: w } = this
+		for (let t = 0; t < 16; t++) w[t] = view.getInt32(offset + t * 4)
+		for (let t = 16; t < 64; t++) {
+			const
+				w15 = w[t - 15],
+				w2 = w[t - 2],
+				s0 = rotr32(w15, 7) ^ rotr32(w15, 18) ^ (w15 >>> 3),
+				s1 = rotr32(w2, 17) ^ rotr32(w2, 19) ^ (w2 >>> 10)
+			w[t] = w[t - 16] + s0 + w[t - 7] + s1
+		}
+		let [a, b, c, d, e, f, g, h] = state
+		for (let t = 0; t < 64; t++) {
+			const
+				s1 = rotr32(e, 6) ^ rotr32(e, 11) ^ rotr32(e, 25),
+				ch = (e & f) ^ (~e & g),
+				temp1 = (h + s1 + ch + sha256_k[t] + w[t]) | 0,
+				s0 = rotr32(a, 2) ^ rotr32(a, 13) ^ rotr32(a, 22),
+				maj = (a & b) ^ (a & c) ^ (b & c),
+				temp2 = (s0 + maj) | 0
+			h = g
+			g = f
+			f = e
+			e = (d + temp1) | 0
+			d = c
+			c = b
+			b = a
+			a = (temp1 + temp2) | 0
+		}
+		state[0] += a
+		state[1] += b
+		state[2] += c
+		state[3] += d
+		state[4] += e
+		state[5] += f
+		state[6] += g
+		state[7] += h
+	}
+
+	protected stateBytes(): Uint8Array {
+		return bytesOfWords(this.state)
+	}
+}
+
+/** the SHA-512 round constants, which are the first 64 bits of the fractional parts of the cube roots of the first 80 primes. <br>
+ * each 64-bit constant is stored as a pair of 32-bit words: the high word, followed by the low word
+*/
+const sha512_k = Int32Array.of(
+	0x428A2F98, 0xD728AE22, 0x71374491, 0x23EF65CD, 0xB5C0FBCF, 0xEC4D3B2F, 0xE9B5DBA5, 0x8189DBBC,
+	0x3956C25B, 0xF348B538, 0x59F111F1, 0xB605D019, 0x923F82A4, 0xAF194F9B, 0xAB1C5ED5, 0xDA6D8118,
+	0xD807AA98, 0xA3030242, 0x12835B01, 0x45706FBE, 0x243185BE, 0x4EE4B28C, 0x550C7DC3, 0xD5FFB4E2,
+	0x72BE5D74, 0xF27B896F, 0x80DEB1FE, 0x3B1696B1, 0x9BDC06A7, 0x25C71235, 0xC19BF174, 0xCF692694,
+	0xE49B69C1, 0x9EF14AD2, 0xEFBE4786, 0x384F25E3, 0x0FC19DC6, 0x8B8CD5B5, 0x240CA1CC, 0x77AC9C65,
+	0x2DE92C6F, 0x592B0275, 0x4A7484AA, 0x6EA6E483, 0x5CB0A9DC, 0xBD41FBD4, 0x76F988DA, 0x831153B5,
+	0x983E5152, 0xEE66DFAB, 0xA831C66D, 0x2DB43210, 0xB00327C8, 0x98FB213F, 0xBF597FC7, 0xBEEF0EE4,
+	0xC6E00BF3, 0x3DA88FC2, 0xD5A79147, 0x930AA725, 0x06CA6351, 0xE003826F, 0x14292967, 0x0A0E6E70,
+	0x27B70A85, 0x46D22FFC, 0x2E1B2138, 0x5C26C926, 0x4D2C6DFC, 0x5AC42AED, 0x53380D13, 0x9D95B3DF,
+	0x650A7354, 0x8BAF63DE, 0x766A0ABB, 0x3C77B2A8, 0x81C2C92E, 0x47EDAEE6, 0x92722C85, 0x1482353B,
+	0xA2BFE8A1, 0x4CF10364, 0xA81A664B, 0xBC423001, 0xC24B8B70, 0xD0F89791, 0xC76C51A3, 0x0654BE30,
+	0xD192E819, 0xD6EF5218, 0xD6990624, 0x5565A910, 0xF40E3585, 0x5771202A, 0x106AA070, 0x32BBD1B8,
+	0x19A4C116, 0xB8D2D0C8, 0x1E376C08, 0x5141AB53, 0x2748774C, 0xDF8EEB99, 0x34B0BCB5, 0xE19B48A8,
+	0x391C0CB3, 0xC5C95A63, 0x4ED8AA4A, 0xE3418ACB, 0x5B9CCA4F, 0x7763E373, 0x682E6FF3, 0xD6B2B8A3,
+	0x748F82EE, 0x5DEFB2FC, 0x78A5636F, 0x43172F60, 0x84C87814, 0xA1F0AB72, 0x8CC70208, 0x1A6439EC,
+	0x90BEFFFA, 0x23631E28, 0xA4506CEB, 0xDE82BDE9, 0xBEF9A3F7, 0xB2C67915, 0xC67178F2, 0xE372532B,
+	0xCA273ECE, 0xEA26619C, 0xD186B8C7, 0x21C0C207, 0xEADA7DD6, 0xCDE0EB1E, 0xF57D4F7F, 0xEE6ED178,
+	0x06F067AA, 0x72176FBA, 0x0A637DC5, 0xA2C898A6, 0x113F9804, 0xBEF90DAE, 0x1B710B35, 0x131C471B,
+	0x28DB77F5, 0x23047D84, 0x32CAAB7B, 0x40C72493, 0x3C9EBE0A, 0x15C9BEBC, 0x431D67C4, 0x9C100D4C,
+	0x4CC5D4BE, 0xCB3E42B6, 0x597F299C, 0xFC657E2A, 0x5FCB6FAB, 0x3AD6FAEC, 0x6C44198C, 0x4A475817,
+)
+
+// javascript lacks fast 64-bit integer arithmetic, thus SHA-512's 64-bit words are split into pairs of high and low 32-bit words.
+// the following functions compute the high or low word of a 64-bit right rotation (or shift) of the pair `hi` and `lo`, by `bits` (where `0 < bits < 64` and `bits !== 32`).
+const
+	rotr64Hi = (hi: number, lo: number, bits: number): number => bits < 32 ? (hi >>> bits) | (lo << (32 - bits)) : (lo >>> (bits - 32)) | (hi << (64 - bits)),
+	rotr64Lo = (hi: number, lo: number, bits: number): number => bits < 32 ? (lo >>> bits) | (hi << (32 - bits)) : (hi >>> (bits - 32)) | (lo << (64 - bits)),
+	shr64Hi = (hi: number, lo: number, bits: number): number => hi >>> bits,
+	shr64Lo = (hi: number, lo: number, bits: number): number => (lo >>> bits) | (hi << (32 - bits))
+
+/** the incremental SHA-512 hash
+ * @example
+ * ```ts
+ * new Sha512().update(new TextEncoder().encode("abc")).digest() // ddaf35a193617aba...a54ca49f
+ * ```
+*/
+export class Sha512 extends IncrementalHash {
+	/** the 8 state words, stored as pairs of high and low 32-bit words */
+	protected readonly state: Int32Array = new Int32Array(16)
+	/** the 80 message schedule words, stored as pairs of high and low 32-bit words */
+	protected readonly words: Int32Array = new Int32Array(160)
+
+	constructor() {
+		super(128, 64)
+		this.reset()
+	}
+
+	protected initState(): void {
+		// the first 64 bits of the fractional parts of the square roots of the first 8 primes
+		this.state.set([
+			0x6A09E667, 0xF3BCC908, 0xBB67AE85, 0x84CAA73B, 0x3C6EF372, 0xFE94F82B, 0xA54FF53A, 0x5F1D36F1,
+			0x510E527F, 0xADE682D1, 0x9B05688C, 0x2B3E6C1F, 0x1F83D9AB, 0xFB41BD6B, 0x5BE0CD19, 0x137E2179,
+		])
+	}
+
+	protected compress(view: DataView, offset: number): void {
+		const { state, words: w } = this
+		for (let t = 0; t < 32; t++) w[t] = view.getInt32(offset + t * 4)
+		for (let t = 16; t < 80; t++) {
+			const
+				w15_hi = w[(t - 15) * 2],
+				w15_lo = w[(t - 15) * 2 + 1],
+				w2_hi = w[(t - 2) * 2],
+				w2_lo = w[(t - 2) * 2 + 1],
+				s0_hi = rotr64Hi(w15_hi, w15_lo, 1) ^ rotr64Hi(w15_hi, w15_lo, 8) ^ shr64Hi(w15_hi, w15_lo, 7),
+				s0_lo = rotr64Lo(w15_hi, w15_lo, 1) ^ rotr64Lo(w15_hi, w15_lo, 8) ^ shr64Lo(w15_hi, w15_lo, 7),
+				s1_hi = rotr64Hi(w2_hi, w2_lo, 19) ^ rotr64Hi(w2_hi, w2_lo, 61) ^ shr64Hi(w2_hi, w2_lo, 6),
+				s1_lo = rotr64Lo(w2_hi, w2_lo, 19) ^ rotr64Lo(w2_hi, w2_lo, 61) ^ shr64Lo(w2_hi, w2_lo, 6),
+				// the low words are summed as unsigned numbers, and their overflow is carried into the sum of the high words
+				lo = (w[(t - 16) * 2 + 1] >>> 0) + (s0_lo >>> 0) + (w[(t - 7) * 2 + 1] >>> 0) + (s1_lo >>> 0)
+			w[t * 2] = w[(t - 16) * 2] + s0_hi + w[(t - 7) * 2] + s1_hi + Math.floor(lo / 0x100000000)
+			w[t * 2 + 1] = lo
+		}
+		let [a_hi, a_lo, b_hi, b_lo, c_hi, c_lo, d_hi, d_lo, e_hi, e_lo, f_hi, f_lo, g_hi, g_lo, h_hi, h_lo] = state
+		for (let t = 0; t < 80; t++) {
+			const
+				s1_hi = rotr64Hi(e_hi, e_lo, 14) ^ rotr64Hi(e_hi, e_lo, 18) ^ rotr64Hi(e_hi, e_lo, 41),
+				s1_lo = rotr64Lo(e_hi, e_lo, 14) ^ rotr64Lo(e_hi, e_lo, 18) ^ rotr64Lo(e_hi, e_lo, 41),
+				ch_hi = (e_hi & f_hi) ^ (~e_hi & g_hi),
+				ch_lo = (e_lo & f_lo) ^ (~e_lo & g_lo),
+				temp1_lo = (h_lo >>> 0) + (s1_lo >>> 0) + (ch_lo >>> 0) + (sha512_k[t * 2 + 1] >>> 0) + (w[t * 2 + 1] >>> 0),
+				temp1_hi = (h_hi + s1_hi + ch_hi + sha512_k[t * 2] + w[t * 2] + Math.floor(temp1_lo / 0x100000000)) | 0,
+				s0_hi = rotr64Hi(a_hi, a_lo, 28) ^ rotr64Hi(a_hi, a_lo, 34) ^ rotr64Hi(a_hi, a_lo, 39),
+				s0_lo = rotr64Lo(a_hi, a_lo, 28) ^ rotr64Lo(a_hi, a_lo, 34) ^ rotr64Lo(a_hi, a_lo, 39),
+				maj_hi = (a_hi & b_hi) ^ (a_hi & c_hi) ^ (b_hi & c_hi),
+				maj_lo = (a_lo & b_lo) ^ (a_lo & c_lo) ^ (b_lo & c_lo),
+				temp2_lo = (s0_lo >>> 0) + (maj_lo >>> 0),
+				temp2_hi = (s0_hi + maj_hi + Math.floor(temp2_lo / 0x100000000)) | 0,
+				e_sum_lo = (d_lo >>> 0) + (temp1_lo >>> 0),
+				a_sum_lo = (temp1_lo >>> 0) + (temp2_lo >>> 0)
+			h_hi = g_hi
+			h_lo = g_lo
+			g_hi = f_hi
+			g_lo = f_lo
+			f_hi = e_hi
+			f_lo = e_lo
+			e_hi = (d_hi + temp1_hi + Math.floor(e_sum_lo / 0x100000000)) | 0
+			e_lo = e_sum_lo | 0
+			d_hi = c_hi
+			d_lo = c_lo
+			c_hi = b_hi
+			c_lo = b_lo
+			b_hi = a_hi
+			b_lo = a_lo
+			a_hi = (temp1_hi + temp2_hi + Math.floor(a_sum_lo / 0x100000000)) | 0
+			a_lo = a_sum_lo | 0
+		}
+		const result = [a_hi, a_lo, b_hi, b_lo, c_hi, c_lo, d_hi, d_lo, e_hi, e_lo, f_hi, f_lo, g_hi, g_lo, h_hi, h_lo]
+		for (let i = 0; i < 16; i += 2) {
+			const lo = (state[i + 1] >>> 0) + (result[i + 1] >>> 0)
+			state[i] = state[i] + result[i] + Math.floor(lo / 0x100000000)
+			state[i + 1] = lo
+		}
+	}
+
+	protected stateBytes(): Uint8Array {
+		return bytesOfWords(this.state)
+	}
+}
+
+/** create a new incremental hash object of the given `algorithm`. the hash is computed in pure typescript, thus it works in any javascript environment */
+export const createHash = (algorithm: HashAlgorithm): IncrementalHash => {
+	switch (algorithm) {
+		case "SHA-1": return new Sha1()
+		case "SHA-256": return new Sha256()
+		case "SHA-512": return new Sha512()
+		default: throw new TypeError(`unsupported hash algorithm: "${algorithm}"`)
+	}
+}
+
+/** get the WebCrypto api's `SubtleCrypto` interface, if it is available in the current environment (ie browsers in secure contexts, deno, and node 19+) */
+const subtleCrypto = (): SubtleCrypto | undefined => globalThis.crypto?.subtle
+
+/** compute the cryptographic hash digest of `bytes`, using the given `algorithm`. <br>
+ * the native WebCrypto api is used when it is available, otherwise the pure typescript implementation (see {@link createHash}) is used as a fallback.
+ * @example
+ * ```ts
+ * const checksum = await digest("SHA-256", packSeq(["str", "hello"], ["u4l", 42]))
+ * ```
+*/
+export const digest = async (algorithm: HashAlgorithm, bytes: Uint8Array): Promise<Uint8Array> => {
+	const subtle = subtleCrypto()
+	if (subtle !== undefined) return new Uint8Array(await subtle.digest(algorithm, bytes))
+	return createHash(algorithm).update(bytes).digest()
+}
+
+/** the incremental HMAC (hash-based message authentication code) of a given hash `algorithm` and secret `key`, computed in pure typescript.
+ * @example
+ * ```ts
+ * const mac = new Hmac("SHA-256", secret_key)
+ * for (const chunk of chunks) mac.update(chunk)
+ * const signature = mac.digest()
+ * ```
+*/
+export class Hmac {
+	/** the hash algorithm underlying this HMAC */
+	readonly algorithm: HashAlgorithm
+	/** the inner hash, which is fed with the inner padded key, followed by the message */
+	protected readonly inner: IncrementalHash
+	/** the outer hash, which is fed with the outer padded key, followed by the inner hash's digest */
+	protected readonly outer: IncrementalHash
+	/** the key padded to the hash's block size, xor-ed with `0x36` */
+	protected readonly inner_key: Uint8Array
+	/** the key padded to the hash's block size, xor-ed with `0x5C` */
+	protected readonly outer_key: Uint8Array
+
+	constructor(algorithm: HashAlgorithm, key: Uint8Array) {
+		this.algorithm = algorithm
+		this.inner = createHash(algorithm)
+		this.outer = createHash(algorithm)
+		const
+			block_size = this.inner.block_size,
+			// keys longer than a block are first hashed down
+			padded_key = new Uint8Array(block_size)
+		padded_key.set(key.length > block_size ? createHash(algorithm).update(key).digest() : key)
+		this.inner_key = padded_key.map((byte) => byte ^ 0x36)
+		this.outer_key = padded_key.map((byte) => byte ^ 0x5C)
+		this.reset()
+	}
+
+	/** reset the HMAC state, so that a new message can be authenticated with the same key */
+	reset(): this {
+		this.inner.reset().update(this.inner_key)
+		return this
+	}
+
+	/** feed the next piece of the message `bytes` */
+	update(bytes: Uint8Array): this {
+		this.inner.update(bytes)
+		return this
+	}
+
+	/** finalize and get the message authentication code of the whole message. the HMAC is then {@link reset}, so that it can be reused */
+	digest(): Uint8Array {
+		const inner_digest = this.inner.digest()
+		this.reset()
+		return this.outer.reset().update(this.outer_key).update(inner_digest).digest()
+	}
+}
+
+/** compute the HMAC (hash-based message authentication code) of `bytes`, with the given hash `algorithm` and secret `key`. <br>
+ * the native WebCrypto api is used when it is available, otherwise the pure typescript {@link Hmac} is used as a fallback.
+ * @example
+ * ```ts
+ * const
+ * 	blob = file_parser.encodeObject(obj),
+ * 	signature = await hmac("SHA-256", secret_key, blob)
+ * ```
+*/
+export const hmac = async (algorithm: HashAlgorithm, key: Uint8Array, bytes: Uint8Array): Promise<Uint8Array> => {
+	const subtle = subtleCrypto()
+	// WebCrypto does not accept empty HMAC keys
+	if (subtle === undefined || key.length === 0) return new Hmac(algorithm, key).update(bytes).digest()
+	const crypto_key = await subtle.importKey("raw", key, { name: "HMAC", hash: algorithm }, false, ["sign"])
+	return new Uint8Array(await subtle.sign("HMAC", crypto_key, bytes))
+}
+
+/** verify that the HMAC `signature` of `bytes` matches the one computed with the given hash `algorithm` and secret `key`. <br>
+ * the comparison takes the same amount of time regardless of where the signatures differ, so that no timing information is leaked
+*/
+export const verifyHmac = async (algorithm: HashAlgorithm, key: Uint8Array, bytes: Uint8Array, signature: Uint8Array): Promise<boolean> => {
+	const expected = await hmac(algorithm, key, bytes)
+	if (expected.length !== signature.length) return false
+	let difference = 0
+	for (let i = 0; i < expected.length; i++) difference |= expected[i] ^ signature[i]
+	return difference === 0
+}
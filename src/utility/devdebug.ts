@@ -5,7 +5,10 @@
 */
 
 import { downloadBuffer } from "./browser"
-import { TypedArray } from "./typedefs"
+import { SchemaNode } from "./schema"
+import { NumberDType, TypedArray } from "./typedefs"
+
+declare const DEBUG: boolean
 
 /** access your global dump array. dump anything into it using {@link dump} */
 export const dumps: any[] = []
@@ -53,23 +56,54 @@ const default_options_hexStringOf: hexStringOf_Options = {
 
 /** convert an array of numbers to hex-string, for the sake of easing representation, or for visual purposes. <br>
  * it's also moderately customizable via `options` using the {@link hexStringOf_Options} interface. <br>
+ * all numbers are zero padded to the same number of digits, which is the number of digits of the largest magnitude number, or that of `255` (whichever is longer). <br>
+ * use {@link parseHexStringOf} to parse the output back into numbers
 */
-export const hexStringOf = (arr: number[] | TypedArray, options: Partial<hexStringOf_Options>) => {
+export const hexStringOf = (arr: number[] | TypedArray<NumberDType>, options: Partial<hexStringOf_Options> = {}) => {
 	const
 		{ sep, prefix, postfix, trailing_sep, bra, ket, toUpperCase, radix, } = { ...default_options_hexStringOf, ...options },
-		num_arr: number[] = (arr as TypedArray).buffer ? Array.from(arr as TypedArray) : arr as number[],
+		num_arr: number[] = (arr as TypedArray).buffer ? Array.from(arr as TypedArray<NumberDType>) : arr as number[],
+		pad_length = num_arr.reduce((max_length, v) => Math.max(max_length, Math.abs(v).toString(radix).length), (255).toString(radix).length),
 		str = num_arr.map(v => {
-			let s = v.toString(radix)
-			s = s.length === 2 ? s : "0" + s
+			let s = Math.abs(v).toString(radix).padStart(pad_length, "0")
+			if (v < 0) s = "-" + s
 			if (toUpperCase) return s.toUpperCase()
 			return s
 		}).reduce((str, s) => str + prefix + s + postfix + sep, "")
 	return bra + str.substring(0, str.length - (trailing_sep ? 0 : sep.length)) + ket
 }
 
-/** parse files based on a specific schema `S`
- * TODO clean this up. reporpose it correctly. create interface for the required `encode` and `decode` functions required by the parser
+/** parse a hex-string generated by {@link hexStringOf} back into an array of numbers. <br>
+ * the same `options` that were used for generating the hex-string must be provided. <br>
+ * an error is thrown if any of the entries is not a valid number in the given `radix`
+ * @example
+ * ```ts
+ * const bytes = Uint8Array.of(1, 2, 254)
+ * Uint8Array.from(parseHexStringOf(hexStringOf(bytes))) // Uint8Array [1, 2, 254]
+ * parseHexStringOf("<0b01, 0b11>", { bra: "<", ket: ">", prefix: "0b", radix: 2 }) // [1, 3]
+ * ```
 */
+export const parseHexStringOf = (str: string, options: Partial<hexStringOf_Options> = {}): number[] => {
+	const { sep, prefix, postfix, bra, ket, radix, } = { ...default_options_hexStringOf, ...options }
+	str = str.trim()
+	if (str.startsWith(bra)) str = str.slice(bra.length)
+	if (str.endsWith(ket)) str = str.slice(0, str.length - ket.length)
+	const
+		// the whitespace surrounding the separator is not significant, since the entries get trimmed anyway
+		entries = str.split(sep.trim() || sep),
+		valid_digits = new RegExp(`^-?[${"0123456789abcdefghijklmnopqrstuvwxyz".slice(0, radix)}]+$`, "i")
+	// a trailing separator is accepted regardless of the `trailing_sep` option
+	if (entries[entries.length - 1].trim() === "") entries.pop()
+	return entries.map((entry) => {
+		entry = entry.trim()
+		if (entry.startsWith(prefix)) entry = entry.slice(prefix.length)
+		if (postfix !== "" && entry.endsWith(postfix)) entry = entry.slice(0, -postfix.length)
+		if (!valid_digits.test(entry)) throw new SyntaxError(`"${entry}" is not a valid number in radix ${radix}`)
+		return parseInt(entry, radix)
+	})
+}
+
+/** parse files based on a specific schema `S`. see the {@link SchemaNode} family of classes for defining schemas */
 export class FileParser<S extends SchemaNode<any, string>> {
 	/** the html input element that provides a gateway for user file selection */
 	readonly loader_input: HTMLInputElement = document.createElement("input")
@@ -145,4 +179,4 @@ export class FileParser<S extends SchemaNode<any, string>> {
 	}
 }
 
-Object.assign(globalThis, { dumps, dump, hexStringOf, FileParser, downloadBuffer })
\ No newline at end of file
+Object.assign(globalThis, { dumps, dump, hexStringOf, parseHexStringOf, FileParser, downloadBuffer })
\ No newline at end of file
@@ -3,21 +3,30 @@
  * @module
 */
 
-import { NumericArrayType, NumericType, TypedArray, } from "./typedefs"
-import { concatBytes, env_le, swapEndianessFast, typed_array_constructor_of } from "./typedbuffer"
+import { BigIntDType, FixedNumericType, NumericArrayType, NumericDType, NumericEndianType, NumericType, TypedArray, } from "./typedefs"
+import { BufferPool, concatBytes, env_le, typed_array_constructor_of } from "./typedbuffer"
+import { BitOrder, BitReader, BitWriter } from "./bitpack"
 
 /** binary primitive types
- * - {@link NumericType} various binary representations of number
+ * - {@link NumericType} various binary representations of number. the 64-bit integer types (`"u8l"`, `"u8b"`, `"i8l"`, `"i8b"`) and the unbounded variable-sized integer types (`"uvn"`, `"ivn"`) are represented by `bigint`
  * - {@link NumericArrayType} various binary representations of array of numbers. requires defining array length (number of items) during decoding as `args[0]`
  * - `"bytes"` a `Uint8Array`, which requires defining a bytesize length during decoding as `args[0]`
  * - `"str"` a string, which requires defining a bytesize length during decoding as `args[0]`
  * - `"cstr"` a null-terminated (`"\u0000"`) string. the null termination byte character is automatically added when encoding
+ * - `"padstr"` a fixed-sized string that is padded with trailing null bytes (such as c's `char[16]`), which requires defining its bytesize during both encoding and decoding as `args[0]`
  * - `"bool"` a boolean occupying a single byte
+ * - {@link PrefixedArrayType} any {@link PrimitiveArrayType} whose length is stored in a header preceding it, such as `"str:uv"`
+ * - {@link TerminatedArrayType} any {@link PrimitiveArrayType} that is terminated by a sentinel value, such as `"bytes:s"`
+ * - {@link BitFieldType} bitfields and sub-byte integers, packed together into a whole number of bytes, such as `"bits"` and `"flags"`
 */
 export type PrimitiveType =
 	| PrimitiveArrayType
+	| PrefixedArrayType
+	| TerminatedArrayType
+	| BitFieldType
 	| NumericType
 	| "cstr"
+	| "padstr"
 	| "bool"
 
 /** primitive types that typically require length information to be decoded */
@@ -26,12 +35,78 @@ export type PrimitiveArrayType =
 	| "bytes"
 	| "str"
 
+/** numeric types that can be used for storing the length header of a {@link PrefixedArrayType} */
+export type LengthHeaderType = "uv" | "uvl" | "u1" | "u2l" | "u4l"
+
+/** a {@link PrimitiveArrayType} whose length is stored in the stream itself, as a header of {@link LengthHeaderType} that precedes the data. <br>
+ * the header holds the bytesize for `"str"` and `"bytes"`, and the number of items for a {@link NumericArrayType}. <br>
+ * for example:
+ * - `"str:uv"` a string whose bytesize is written as a variable-sized unsigned integer header (see {@link encode_uvar})
+ * - `"bytes:uvl"` a `Uint8Array` whose bytesize is written as an unsigned LEB128 header (see {@link encode_uleb128}), which is how protobuf stores length-delimited fields
+ * - `"bytes:u4l"` a `Uint8Array` whose bytesize is written as a 4-byte little-endian header
+ * - `"f4b[]:u1"` an array of big-endian floats whose number of items is written as a single byte header
+*/
+export type PrefixedArrayType = `${PrimitiveArrayType}:${LengthHeaderType}`
+
+/** a {@link PrimitiveArrayType} that is terminated by a sentinel value, which can optionally be specified as `args[0]` during both encoding and decoding. <br>
+ * the sentinel defaults to `0`, which is a byte for `"str:s"` and `"bytes:s"`, and an item value for a {@link NumericArrayType} (such as `"u2l[]:s"`). <br>
+ * the value being encoded must not contain the sentinel itself, otherwise it will get truncated upon decoding. <br>
+ * note that `"str:s"` with the default sentinel is equivalent to `"cstr"`
+*/
+export type TerminatedArrayType = `${PrimitiveArrayType}:s`
+
+/** bit-level primitive types, which are packed with a {@link BitWriter} and unpacked with a {@link BitReader}. <br>
+ * the final byte is padded with zero bits, so that the packed fields always occupy a whole number of bytes.
+ * the bit order ({@link BitOrder}) can be specified as the last argument during both encoding and decoding, and it defaults to `"msb"`. <br>
+ * {@link pack} and {@link unpack} take the same arguments for these types, so that the same arguments can be forwarded to both (as the `schema` module does).
+ * the length arguments (the `count` of `"flags"`, and the `array_length` of `"bits[]"` and `"ibits[]"`) are ignored during packing,
+ * since the length is already known from the value.
+ * - `"bits"` a `number[]` of unsigned bitfields, whose bitsizes must be provided as `args[0]: number[]`
+ * - `"ibits"` a `number[]` of signed (two's complement) bitfields, whose bitsizes must be provided as `args[0]: number[]`
+ * - `"flags"` a `boolean[]` of single bit flags. requires defining the number of flags during decoding as `args[0]`, otherwise all remaining bits are decoded
+ * - `"bits[]"` a `number[]` run of unsigned integers that share the same bitsize, provided as `args[0]`.
+ *   requires defining the number of items during decoding as `args[1]`, otherwise as many items as can fit in the remaining bits are decoded
+ * - `"ibits[]"` a `number[]` run of signed (two's complement) integers that share the same bitsize. the arguments are the same as `"bits[]"`
+ * @example
+ * ```ts
+ * // a 3-bit mode, a 1-bit flag, and a 4-bit channel, all packed into a single byte
+ * pack("bits", [0b101, 1, 0b0011], [3, 1, 4]) // Uint8Array.of(0b10110011)
+ * unpack("bits", Uint8Array.of(0b10110011), 0, [3, 1, 4]) // [[0b101, 1, 0b0011], 1]
+ * pack("flags", [true, false, true], 3, "lsb") // Uint8Array.of(0b00000101)
+ * unpack("flags", Uint8Array.of(0b00000101), 0, 3, "lsb") // [[true, false, true], 1]
+ * unpack("ibits[]", Uint8Array.of(0xFF, 0xF0, 0x01), 0, 12, 2) // [[-1, 1], 3]
+ * ```
+*/
+export type BitFieldType = "bits" | "ibits" | "flags" | "bits[]" | "ibits[]"
+
 /** all unpack functions return their decoded outputs in a 2-tupple array; <br>
  * the first element being the decoded value `V`, and the second being the number of bytes this data occupied */
 export type Decoded<V, ByteSize extends number = number> = [value: V, bytesize: ByteSize]
 
 /** primitive javascript types */
-export type JSPrimitive = string | boolean | number | bigint | number[] | Uint8Array
+export type JSPrimitive = string | boolean | number | bigint | number[] | bigint[] | boolean[] | Uint8Array
+
+/** get the {@link JSPrimitive} type that a given {@link PrimitiveType} `P` gets unpacked into
+ * @example
+ * ```ts
+ * const a: JSPrimitiveOf<"cstr"> = "hello" // `string`
+ * const b: JSPrimitiveOf<"f4l[]"> = [1.5, 2.5] // `number[]`
+ * const c: JSPrimitiveOf<"bytes:uv"> = Uint8Array.of(1, 2) // `Uint8Array`
+ * const d: JSPrimitiveOf<"u8l"> = 42n // `bigint`
+ * ```
+*/
+export type JSPrimitiveOf<P extends PrimitiveType> =
+	P extends `${infer A extends PrimitiveArrayType}:${string}` ? JSPrimitiveOf<A> :
+	P extends "bool" ? boolean :
+	P extends "flags" ? boolean[] :
+	P extends "bits" | "ibits" | "bits[]" | "ibits[]" ? number[] :
+	P extends "cstr" | "padstr" | "str" ? string :
+	P extends "bytes" ? Uint8Array :
+	P extends `${BigIntDType}${NumericEndianType}[]` | "uvn[]" | "ivn[]" ? bigint[] :
+	P extends `${BigIntDType}${NumericEndianType}` | "uvn" | "ivn" ? bigint :
+	P extends NumericArrayType ? number[] :
+	P extends NumericType ? number :
+	JSPrimitive
 
 /** packing function signature for {@link JSPrimitive} types */
 export type EncodeFunc<T extends JSPrimitive, ARGS extends any[] = []> = (value: T, ...args: ARGS) => Uint8Array
@@ -39,16 +114,99 @@ export type EncodeFunc<T extends JSPrimitive, ARGS extends any[] = []> = (value:
 /** unpacking function signature for {@link JSPrimitive} types */
 export type DecodeFunc<T extends JSPrimitive, ARGS extends any[] = []> = (buffer: Uint8Array, offset: number, ...args: ARGS) => Decoded<T>
 
+/** the text encodings supported by the string types `"str"`, `"cstr"`, and `"padstr"`. they can be specified per field, and default to `"utf8"`
+ * - `"utf8"` the variable-sized unicode encoding used by the web
+ * - `"utf16le"` and `"utf16be"` unicode encoded as 2-byte code units, in little-endian and big-endian order respectively. the null terminator is 2 bytes long
+ * - `"latin1"` (ISO-8859-1) a single byte per character, for character codes up to `0xFF`
+ * - `"ascii"` a single byte per character, for character codes up to `0x7F`
+*/
+export type TextEncoding = "utf8" | "utf16le" | "utf16be" | "latin1" | "ascii"
+
+/** the behavior of a decoder when a null-terminated string has no null terminator before the end of the buffer
+ * - `"error"` throw an error
+ * - `"end"` decode till the end of the buffer, as if the terminator were located right after it
+*/
+export type MissingTerminatorPolicy = "error" | "end"
+
 const txt_encoder = new TextEncoder()
 const txt_decoder = new TextDecoder()
 
-/** read `type` of value from buffer `buf` starting at position `offset` */
+/** the bytesize of a single code unit of a {@link TextEncoding}, which is also the bytesize of its null terminator */
+export const codeUnitBytesizeOf = (encoding: TextEncoding): 1 | 2 => encoding === "utf16le" || encoding === "utf16be" ? 2 : 1
+
+/** encode a `string` into bytes, using the specified text `encoding`. <br>
+ * an error is thrown if a character cannot be represented in the single byte `"latin1"` or `"ascii"` encodings
+*/
+export const encodeText = (value: string, encoding: TextEncoding = "utf8"): Uint8Array => {
+	if (encoding === "utf8") return txt_encoder.encode(value)
+	const len = value.length
+	if (encoding === "utf16le" || encoding === "utf16be") {
+		const
+			buf = new Uint8Array(len * 2),
+			lo = encoding === "utf16le" ? 0 : 1,
+			hi = 1 - lo
+		for (let i = 0; i < len; i++) {
+			const code = value.charCodeAt(i)
+			buf[2 * i + lo] = code & 0xFF
+			buf[2 * i + hi] = code >> 8
+		}
+		return buf
+	}
+	const
+		buf = new Uint8Array(len),
+		max_code = encoding === "latin1" ? 0xFF : 0x7F
+	for (let i = 0; i < len; i++) {
+		const code = value.charCodeAt(i)
+		if (code > max_code) throw new RangeError(`the character "${value[i]}" at index ${i} cannot be encoded in "${encoding}"`)
+		buf[i] = code
+	}
+	return buf
+}
+
+/** decode `bytes` into a `string`, using the specified text `encoding`. <br>
+ * an error is thrown if a `"utf16le"` or `"utf16be"` input has an odd bytesize, or if an `"ascii"` input contains a byte above `0x7F`
+*/
+export const decodeText = (bytes: Uint8Array, encoding: TextEncoding = "utf8"): string => {
+	if (encoding === "utf8") return txt_decoder.decode(bytes)
+	let codes: Uint16Array | Uint8Array = bytes
+	if (encoding === "utf16le" || encoding === "utf16be") {
+		if (bytes.length % 2 !== 0) throw new RangeError(`"${encoding}" text must have an even bytesize, but ${bytes.length} bytes were provided`)
+		const
+			len = bytes.length / 2,
+			lo = encoding === "utf16le" ? 0 : 1,
+			hi = 1 - lo
+		codes = new Uint16Array(len)
+		for (let i = 0; i < len; i++) codes[i] = bytes[2 * i + lo] | (bytes[2 * i + hi] << 8)
+	} else if (encoding === "ascii") {
+		const i = bytes.findIndex((byte) => byte > 0x7F)
+		if (i >= 0) throw new RangeError(`the byte 0x${bytes[i].toString(16)} at index ${i} is not a valid "ascii" character`)
+	}
+	// the character codes are converted in chunks, so that the maximum number of function arguments is never exceeded
+	const
+		chunk_size = 4096,
+		chunks: string[] = []
+	for (let i = 0; i < codes.length; i += chunk_size) chunks.push(String.fromCharCode(...codes.subarray(i, i + chunk_size)))
+	return chunks.join("")
+}
+
+/** find the index of the first null terminator at or after position `offset`, which must be aligned with the code units of the text `encoding`. returns `-1` if none is found */
+const indexOfNullTerminator = (buf: Uint8Array, offset: number, encoding: TextEncoding): number => {
+	if (codeUnitBytesizeOf(encoding) === 1) return buf.indexOf(0x00, offset)
+	for (let i = offset; i + 1 < buf.length; i += 2) if (buf[i] === 0x00 && buf[i + 1] === 0x00) return i
+	return -1
+}
+
+/** read `type` of value from buffer `buf` starting at position `offset`. <br>
+ * for reading many values sequentially with bounds checking, consider using a {@link ByteReader} instead
+*/
 export const readFrom = (buf: Uint8Array, offset: number, type: PrimitiveType, ...args: any[]): [value: JSPrimitive, new_offset: number] => {
 	const [value, bytesize] = unpack(type, buf, offset, ...args)
 	return [value, offset + bytesize]
 }
 
-/** write `type` of `value` to buffer `buf` starting at position `offset` */
+/** write `type` of `value` to buffer `buf` starting at position `offset`. an error is thrown if `buf` is too small. <br>
+ * for writing many values sequentially into an auto-growing buffer, consider using a {@link ByteWriter} instead
+*/
 export const writeTo = (buf: Uint8Array, offset: number, type: PrimitiveType, value: JSPrimitive, ...args: any[]): [buf: Uint8Array, new_offset: number] => {
 	const value_buf = pack(type, value, ...args)
 	buf.set(value_buf, offset)
@@ -61,11 +219,7 @@ export const writeTo = (buf: Uint8Array, offset: number, type: PrimitiveType, va
  * encodeSeq(["u4b", 0x12AB98], ["str", "hello"], ["bool", false]) === Uint8Array.of(0x00, 0x12, 0xAB, 0x98, 104, 101, 108, 108, 111, 0)
  * ```
 */
-export const packSeq = (...items: Parameters<typeof pack>[]) => {
-	const bufs: Uint8Array[] = []
-	for (const item of items) bufs.push(pack(...item))
-	return concatBytes(...bufs)
-}
+export const packSeq = (...items: Parameters<typeof pack>[]) => new ByteWriter().writeSeq(...items).toBytes()
 
 /** decode as a sequential array of items. this is the inverse of {@link packSeq}
  * @example
@@ -84,16 +238,259 @@ export const unpackSeq = (buf: Uint8Array, offset: number, ...items: [type: Prim
 	return [values, total_bytesize]
 }
 
+/** get the number of bytes that a `type` of value will occupy, if it can be determined without looking at the data itself. otherwise `undefined` is returned. <br>
+ * this is the case for `"bool"`, fixed-sized numeric types, and fixed-sized numeric arrays, `"str"`, `"padstr"`, and `"bytes"` when their length is provided as `args[0]`,
+ * and {@link BitFieldType}s whose total number of bits is known
+*/
+const fixedBytesizeOf = (type: PrimitiveType, ...args: any[]): number | undefined => {
+	if (type === "bool") return 1
+	if (isBitFieldType(type)) {
+		const bitsize = bitsizeOfBitField(type, ...args)
+		return bitsize === undefined ? undefined : Math.ceil(bitsize / 8)
+	}
+	if (type === "str" || type === "bytes" || type === "padstr") return args[0]
+	if (type === "cstr" || type.includes(":") || type[1] === "v") return undefined
+	const item_bytesize = parseInt(type[1])
+	if (!type.endsWith("[]")) return item_bytesize
+	return args[0] === undefined ? undefined : item_bytesize * args[0]
+}
+
+/** a writer with an auto-growing backing buffer and a tracked cursor, for sequentially packing many values without allocating an array for each one of them. <br>
+ * whenever the capacity is exceeded, the backing buffer is reallocated to double its size (amortised doubling). <br>
+ * length fields whose value is only known after the data has been written can be reserved beforehand with {@link reserve}, and then filled later with {@link patch}.
+ * @example
+ * ```ts
+ * const writer = new ByteWriter()
+ * const length_offset = writer.reserve("u4l")
+ * writer.write("cstr", "hello").write("f8b[]", [1.5, 2.5])
+ * writer.patch(length_offset, "u4l", writer.length - 4)
+ * const bytes = writer.toBytes()
+ * ```
+*/
+export class ByteWriter {
+	/** the backing buffer. it gets replaced by a larger one when it runs out of capacity */
+	protected buf: Uint8Array
+	/** the current position of the cursor */
+	protected pos: number = 0
+	/** the furthest position that has been written to so far */
+	protected end: number = 0
+
+	/** @param capacity the initial bytesize of the backing buffer. defaults to `256` */
+	constructor(capacity: number = 256) {
+		this.buf = new Uint8Array(capacity)
+	}
+
+	/** the number of bytes written so far, which is the furthest position that has been written to */
+	get length(): number {
+		return this.end
+	}
+
+	/** the current bytesize of the backing buffer */
+	get capacity(): number {
+		return this.buf.length
+	}
+
+	/** get the current position of the cursor */
+	tell(): number {
+		return this.pos
+	}
+
+	/** move the cursor to the position `offset`. seeking beyond {@link length} is allowed, and the gap will be filled with zeros */
+	seek(offset: number): this {
+		if (offset < 0) throw new RangeError(`cannot seek to the negative offset ${offset}`)
+		this.pos = offset
+		return this
+	}
+
+	/** make sure that the backing buffer can hold at least `capacity` number of bytes, by reallocating it to the next doubling of its size when necessary */
+	protected grow(capacity: number): void {
+		const old_buf = this.buf
+		if (capacity <= old_buf.length) return
+		let new_capacity = Math.max(old_buf.length, 1)
+		while (new_capacity < capacity) new_capacity *= 2
+		this.buf = new Uint8Array(new_capacity)
+		this.buf.set(old_buf.subarray(0, this.end))
+	}
+
+	/** write raw `bytes` at the cursor, and advance the cursor */
+	writeBytes(bytes: Uint8Array | Array<number>): this {
+		const new_pos = this.pos + bytes.length
+		this.grow(new_pos)
+		this.buf.set(bytes, this.pos)
+		this.pos = new_pos
+		if (new_pos > this.end) this.end = new_pos
+		return this
+	}
+
+	/** pack a `type` of `value` at the cursor (see {@link pack}), and advance the cursor */
+	write(type: PrimitiveType, value: JSPrimitive, ...args: any[]): this {
+		if (!isFixedNumericType(type)) return this.writeBytes(pack(type, value, ...args))
+		// fixed-sized numbers are written directly into the backing buffer, without allocating an intermediate array
+		const new_pos = this.pos + parseInt(type[1])
+		this.grow(new_pos)
+		writeNumber(this.buf, this.pos, type, value as number | bigint)
+		this.pos = new_pos
+		if (new_pos > this.end) this.end = new_pos
+		return this
+	}
+
+	/** pack a sequence of items at the cursor. this is the {@link ByteWriter} equivalent of {@link packSeq} */
+	writeSeq(...items: Parameters<typeof pack>[]): this {
+		for (const item of items) this.write(...item)
+		return this
+	}
+
+	/** reserve space for a fixed-sized numeric `type` at the cursor, and advance the cursor past it. <br>
+	 * the reserved space is zero filled, and its offset is returned so that it can later be filled in via {@link patch}
+	*/
+	reserve(type: FixedNumericType): number {
+		const
+			offset = this.pos,
+			bytesize = fixedBytesizeOf(type)
+		if (!isFixedNumericType(type) || bytesize === undefined) throw new TypeError(`cannot reserve space for the variable-sized numeric type "${type}"`)
+		this.writeBytes(new Uint8Array(bytesize))
+		return offset
+	}
+
+	/** pack a `type` of `value` at a previously written position `offset`, without moving the cursor. <br>
+	 * this is typically used for filling in space that was reserved via {@link reserve}
+	*/
+	patch(offset: number, type: PrimitiveType, value: JSPrimitive, ...args: any[]): this {
+		const pos = this.pos
+		this.pos = offset
+		this.write(type, value, ...args)
+		this.pos = pos
+		return this
+	}
+
+	/** get a copy of the written bytes */
+	toBytes(): Uint8Array {
+		return this.buf.slice(0, this.end)
+	}
+
+	/** get a view of the written bytes without copying. <br>
+	 * note that the view will no longer reflect any subsequent writes if the backing buffer gets reallocated
+	*/
+	view(): Uint8Array {
+		return this.buf.subarray(0, this.end)
+	}
+}
+
+/** a reader with a tracked cursor for sequentially unpacking values from a buffer, with bounds checking. <br>
+ * it is the counterpart of {@link ByteWriter}.
+ * @example
+ * ```ts
+ * const reader = new ByteReader(bytes)
+ * const length = reader.read("u4l")
+ * const name = reader.read("cstr")
+ * const next_byte = reader.peek("u1")
+ * ```
+*/
+export class ByteReader {
+	/** the buffer being read */
+	readonly buf: Uint8Array
+	/** the current position of the cursor */
+	protected pos: number
+
+	constructor(buf: Uint8Array, offset: number = 0) {
+		this.buf = buf
+		this.pos = offset
+	}
+
+	/** the number of bytes remaining after the cursor */
+	get remaining(): number {
+		return this.buf.length - this.pos
+	}
+
+	/** get the current position of the cursor */
+	tell(): number {
+		return this.pos
+	}
+
+	/** move the cursor to the position `offset`, which must lie within the buffer's bounds */
+	seek(offset: number): this {
+		if (offset < 0 || offset > this.buf.length) throw new RangeError(`cannot seek to offset ${offset}, which is outside of the buffer's bounds [0, ${this.buf.length}]`)
+		this.pos = offset
+		return this
+	}
+
+	/** unpack a `type` of value at the cursor (see {@link unpack}), without advancing the cursor. <br>
+	 * an error is thrown if the value would extend beyond the end of the buffer
+	*/
+	peekDecoded<P extends PrimitiveType>(type: P, ...args: any[]): Decoded<JSPrimitiveOf<P>> {
+		const
+			buf = this.buf,
+			pos = this.pos,
+			fixed_bytesize = fixedBytesizeOf(type, ...args)
+		if (fixed_bytesize !== undefined) this.assertBounds(fixed_bytesize, type)
+		else if (pos >= buf.length) this.assertBounds(1, type)
+		const decoded = unpack(type, buf, pos, ...args) as Decoded<JSPrimitiveOf<P>>
+		this.assertBounds(decoded[1], type)
+		return decoded
+	}
+
+	/** unpack a `type` of value at the cursor (see {@link unpack}), without advancing the cursor */
+	peek<P extends PrimitiveType>(type: P, ...args: any[]): JSPrimitiveOf<P> {
+		return this.peekDecoded(type, ...args)[0]
+	}
+
+	/** unpack a `type` of value at the cursor (see {@link unpack}), and advance the cursor past it */
+	read<P extends PrimitiveType>(type: P, ...args: any[]): JSPrimitiveOf<P> {
+		const [value, bytesize] = this.peekDecoded(type, ...args)
+		this.pos += bytesize
+		return value
+	}
+
+	/** unpack a sequence of items at the cursor. this is the {@link ByteReader} equivalent of {@link unpackSeq} */
+	readSeq(...items: [type: PrimitiveType, ...args: any[]][]): JSPrimitive[] {
+		const values: JSPrimitive[] = []
+		for (const [type, ...args] of items) values.push(this.read(type, ...args))
+		return values
+	}
+
+	/** read `bytesize` number of raw bytes as a subarray view, and advance the cursor past them */
+	readBytes(bytesize: number): Uint8Array {
+		this.assertBounds(bytesize, "bytes")
+		const value = this.buf.subarray(this.pos, this.pos + bytesize)
+		this.pos += bytesize
+		return value
+	}
+
+	/** advance the cursor by `bytesize` number of bytes */
+	skip(bytesize: number): this {
+		this.assertBounds(bytesize, "bytes")
+		this.pos += bytesize
+		return this
+	}
+
+	/** throw an error if `bytesize` number of bytes after the cursor would go beyond the end of the buffer */
+	protected assertBounds(bytesize: number, type: PrimitiveType): void {
+		if (this.pos + bytesize > this.buf.length) throw new RangeError(`reading "${type}" at offset ${this.pos} requires ${bytesize} bytes, but only ${this.remaining} remain`)
+	}
+}
+
 /** auto value encoder/packer for {@link PrimitiveType} */
 export const pack = (type: PrimitiveType, value: JSPrimitive, ...args: any[]): ReturnType<EncodeFunc<JSPrimitive>> => {
 	switch (type) {
 		case "bool": return encode_bool(value as boolean)
-		case "cstr": return encode_cstr(value as string)
-		case "str": return encode_str(value as string)
+		case "cstr": return encode_cstr(value as string, ...args as [TextEncoding?])
+		case "padstr": return encode_padstr(value as string, ...args as [number, TextEncoding?])
+		// the `bytesize` argument of a "str" is only meaningful to the decoder, thus it is skipped over
+		case "str": return encode_str(value as string, args[1] as TextEncoding | undefined)
 		case "bytes": return encode_bytes(value as Uint8Array)
+		case "bits": return encode_bits(value as number[], ...args as [number[], BitOrder?])
+		case "ibits": return encode_ibits(value as number[], ...args as [number[], BitOrder?])
+		// the count and length arguments are only meaningful to the decoders, thus they are skipped over
+		case "flags": return encode_flags(value as boolean[], args[1] as BitOrder | undefined)
+		case "bits[]": return encode_bitrun(value as number[], args[0] as number, args[2] as BitOrder | undefined)
+		case "ibits[]": return encode_ibitrun(value as number[], args[0] as number, args[2] as BitOrder | undefined)
 		default: {
-			if (type.endsWith("[]")) return encode_number_array(value as number[], type as NumericArrayType)
-			else return encode_number(value as number, type as NumericType)
+			if (type.endsWith(":s")) return encode_terminated(value as string | Uint8Array | number[], type as TerminatedArrayType, ...args)
+			else if (type.includes(":")) return encode_prefixed(value as string | Uint8Array | number[], type as PrefixedArrayType, ...args)
+			// the optional `array_length` argument of numeric arrays is only meaningful to the decoder, thus it is ignored.
+			// a `BufferPool` can only be provided by calling `encode_number_array` directly
+			else if (type.endsWith("[]")) return encode_number_array(value as number[] | bigint[], type as NumericArrayType)
+			else return encode_number(value as number | bigint, type as NumericType)
 		}
 	}
 }
@@ -102,11 +499,19 @@ export const pack = (type: PrimitiveType, value: JSPrimitive, ...args: any[]): R
 export const unpack = (type: PrimitiveType, buf: Uint8Array, offset: number, ...args: any[]): ReturnType<DecodeFunc<JSPrimitive>> => {
 	switch (type) {
 		case "bool": return decode_bool(buf, offset)
-		case "cstr": return decode_cstr(buf, offset)
-		case "str": return decode_str(buf, offset, ...args)
+		case "cstr": return decode_cstr(buf, offset, ...args as [TextEncoding?, MissingTerminatorPolicy?])
+		case "padstr": return decode_padstr(buf, offset, ...args as [number, TextEncoding?])
+		case "str": return decode_str(buf, offset, ...args as [number?, TextEncoding?])
 		case "bytes": return decode_bytes(buf, offset, ...args)
+		case "bits": return decode_bits(buf, offset, ...args as [number[], BitOrder?])
+		case "ibits": return decode_ibits(buf, offset, ...args as [number[], BitOrder?])
+		case "flags": return decode_flags(buf, offset, ...args as [number?, BitOrder?])
+		case "bits[]": return decode_bitrun(buf, offset, ...args as [number, number?, BitOrder?])
+		case "ibits[]": return decode_ibitrun(buf, offset, ...args as [number, number?, BitOrder?])
 		default: {
-			if (type.endsWith("[]")) return decode_number_array(buf, offset, type as NumericArrayType, ...args)
+			if (type.endsWith(":s")) return decode_terminated(buf, offset, type as TerminatedArrayType, ...args)
+			else if (type.includes(":")) return decode_prefixed(buf, offset, type as PrefixedArrayType, ...args)
+			else if (type.endsWith("[]")) return decode_number_array(buf, offset, type as NumericArrayType, ...args)
 			else return decode_number(buf, offset, type as NumericType)
 		}
 	}
@@ -118,30 +523,63 @@ export const encode_bool: EncodeFunc<boolean> = (value) => Uint8Array.of(value ?
 /** unpack a `boolean` from 1-byte of data */
 export const decode_bool: DecodeFunc<boolean> = (buf, offset = 0) => [buf[offset] >= 1 ? true : false, 1]
 
-/** pack a `string` as an array of characters, terminated by the `"\u0000"` charbyte. this is the c convention of strings */
-export const encode_cstr: EncodeFunc<string> = (value) => txt_encoder.encode(value + "\u0000")
+/** pack a `string` as an array of characters, terminated by the `"\u0000"` charbyte. this is the c convention of strings. <br>
+ * the null terminator occupies 2 bytes for the `"utf16le"` and `"utf16be"` encodings
+*/
+export const encode_cstr: EncodeFunc<string, [encoding?: TextEncoding]> = (value, encoding = "utf8") => encodeText(value + "\u0000", encoding)
 
-/** unpack a `string` as an array of characters that's terminated by `"\u0000"` charbyte. this is the c convention of strings */
-export const decode_cstr: DecodeFunc<string> = (buf, offset = 0) => {
-	const
-		offset_end = buf.indexOf(0x00, offset),
-		txt_arr = buf.subarray(offset, offset_end),
-		value = txt_decoder.decode(txt_arr)
-	return [value, txt_arr.length + 1]
+/** unpack a `string` as an array of characters that's terminated by `"\u0000"` charbyte. this is the c convention of strings. <br>
+ * if no null terminator exists till the end of the buffer, then an error is thrown, unless the `missing_terminator` policy is set to `"end"`,
+ * in which case the string is decoded till the end of the buffer (and the returned bytesize excludes the non-existing terminator)
+*/
+export const decode_cstr: DecodeFunc<string, [encoding?: TextEncoding, missing_terminator?: MissingTerminatorPolicy]> = (buf, offset = 0, encoding = "utf8", missing_terminator = "error") => {
+	const offset_end = indexOfNullTerminator(buf, offset, encoding)
+	if (offset_end < 0) {
+		if (missing_terminator === "error") throw new RangeError(`no null terminator was found for the "cstr" beginning at offset ${offset}`)
+		const txt_arr = buf.subarray(offset)
+		return [decodeText(txt_arr, encoding), txt_arr.length]
+	}
+	const txt_arr = buf.subarray(offset, offset_end)
+	return [decodeText(txt_arr, encoding), txt_arr.length + codeUnitBytesizeOf(encoding)]
 }
 
-/** pack a `string` as an array of characters */
-export const encode_str: EncodeFunc<string> = (value) => txt_encoder.encode(value)
+/** pack a `string` as an array of characters. <br>
+ * note that {@link pack} takes the arguments `(bytesize?, encoding?)` for `"str"`, just like {@link unpack}, and ignores the `bytesize`
+*/
+export const encode_str: EncodeFunc<string, [encoding?: TextEncoding]> = (value, encoding = "utf8") => encodeText(value, encoding)
 
 /** unpack a `string` as an array of characters. you must provide the `bytesize` of the string being decoded, otherwise the decoder will unpack till the end of the buffer */
-export const decode_str: DecodeFunc<string, [bytesize?: number]> = (buf, offset = 0, bytesize?) => {
+export const decode_str: DecodeFunc<string, [bytesize?: number, encoding?: TextEncoding]> = (buf, offset = 0, bytesize?, encoding = "utf8") => {
 	const
 		offset_end = bytesize === undefined ? undefined : offset + bytesize,
 		txt_arr = buf.subarray(offset, offset_end),
-		value = txt_decoder.decode(txt_arr)
+		value = decodeText(txt_arr, encoding)
 	return [value, txt_arr.length]
 }
 
+/** pack a `string` into a fixed-sized field of `bytesize` number of bytes, padding the remainder with null bytes (such as c's `char[16]`). <br>
+ * an error is thrown if the encoded string does not fit. note that a string which exactly fills the field will have no null terminator
+*/
+export const encode_padstr: EncodeFunc<string, [bytesize: number, encoding?: TextEncoding]> = (value, bytesize, encoding = "utf8") => {
+	const txt_arr = encodeText(value, encoding)
+	if (txt_arr.length > bytesize) throw new RangeError(`the encoded string of bytesize ${txt_arr.length} does not fit in a "padstr" field of bytesize ${bytesize}`)
+	const buf = new Uint8Array(bytesize)
+	buf.set(txt_arr)
+	return buf
+}
+
+/** unpack a `string` from a fixed-sized field of `bytesize` number of bytes, ignoring everything after the first null terminator. <br>
+ * the returned bytesize is always the full `bytesize` of the field
+*/
+export const decode_padstr: DecodeFunc<string, [bytesize: number, encoding?: TextEncoding]> = (buf, offset = 0, bytesize, encoding = "utf8") => {
+	if (offset + bytesize > buf.length) throw new RangeError(`a "padstr" field of bytesize ${bytesize} at offset ${offset} extends beyond the buffer's length ${buf.length}`)
+	const
+		field = buf.subarray(offset, offset + bytesize),
+		offset_end = indexOfNullTerminator(field, 0, encoding),
+		value = decodeText(field.subarray(0, offset_end < 0 ? undefined : offset_end), encoding)
+	return [value, bytesize]
+}
+
 /** pack a `Uint8Array` array of bytes as is. (ie: don't perform any operation) */
 export const encode_bytes: EncodeFunc<Uint8Array> = (value) => value
 
@@ -153,43 +591,359 @@ export const decode_bytes: DecodeFunc<Uint8Array, [bytesize?: number]> = (buf, o
 	return [value, value.length]
 }
 
-/** pack a numeric array (`number[]`) in the provided {@link NumericArrayType} byte representation */
-export const encode_number_array: EncodeFunc<number[], [type: NumericArrayType]> = (value, type) => {
+/** check if a {@link PrimitiveType} is a {@link BitFieldType} */
+const isBitFieldType = (type: PrimitiveType): type is BitFieldType => type.includes("bits") || type === "flags"
+
+/** get the total number of bits that a {@link BitFieldType} will occupy, if it can be determined from its `args` alone. otherwise `undefined` is returned */
+const bitsizeOfBitField = (type: BitFieldType, ...args: any[]): number | undefined => {
+	switch (type) {
+		case "bits":
+		case "ibits": return (args[0] as number[]).reduce((total, bitsize) => total + bitsize, 0)
+		case "flags": return typeof args[0] === "number" ? args[0] : undefined
+		default: return typeof args[1] === "number" ? args[0] * args[1] : undefined
+	}
+}
+
+/** pack a `number[]` of unsigned integers as bitfields, with each field occupying the number of bits specified in `bitsizes`. <br>
+ * the final byte is padded with zero bits. an error is thrown if a value does not fit in its bitsize
+*/
+export const encode_bits: EncodeFunc<number[], [bitsizes: number[], order?: BitOrder]> = (value, bitsizes, order = "msb") => {
+	const writer = new BitWriter(order)
+	bitsizes.forEach((bitsize, i) => writer.writeBits(value[i], bitsize))
+	return writer.toBytes()
+}
+
+/** unpack a `number[]` of unsigned integer bitfields, with each field occupying the number of bits specified in `bitsizes`. <br>
+ * the returned bytesize includes the padding bits of the final byte
+*/
+export const decode_bits: DecodeFunc<number[], [bitsizes: number[], order?: BitOrder]> = (buf, offset = 0, bitsizes, order = "msb") => {
+	const reader = new BitReader(buf, offset, order)
+	return [bitsizes.map((bitsize) => reader.readBits(bitsize)), reader.bytesize]
+}
+
+/** pack a `number[]` of signed integers as two's complement bitfields, with each field occupying the number of bits specified in `bitsizes`. <br>
+ * the final byte is padded with zero bits. an error is thrown if a value does not fit in its bitsize
+*/
+export const encode_ibits: EncodeFunc<number[], [bitsizes: number[], order?: BitOrder]> = (value, bitsizes, order = "msb") => {
+	const writer = new BitWriter(order)
+	bitsizes.forEach((bitsize, i) => writer.writeSigned(value[i], bitsize))
+	return writer.toBytes()
+}
+
+/** unpack a `number[]` of signed integer two's complement bitfields, with each field occupying the number of bits specified in `bitsizes`. <br>
+ * the returned bytesize includes the padding bits of the final byte
+*/
+export const decode_ibits: DecodeFunc<number[], [bitsizes: number[], order?: BitOrder]> = (buf, offset = 0, bitsizes, order = "msb") => {
+	const reader = new BitReader(buf, offset, order)
+	return [bitsizes.map((bitsize) => reader.readSigned(bitsize)), reader.bytesize]
+}
+
+/** pack a `boolean[]` as a set of single bit flags. the final byte is padded with zero bits. <br>
+ * unlike {@link decode_flags}, there is no `count` argument preceding the bit `order`, since the number of flags is that of the `value`.
+ * however, {@link pack} does accept (and ignore) the `count`, so that its arguments match those of {@link unpack}
+*/
+export const encode_flags: EncodeFunc<boolean[], [order?: BitOrder]> = (value, order = "msb") => new BitWriter(order).writeFlags(value).toBytes()
+
+/** unpack a `boolean[]` from a set of single bit flags. you should provide the `count` of flags being decoded, otherwise the decoder will unpack all bits till the end of the buffer */
+export const decode_flags: DecodeFunc<boolean[], [count?: number, order?: BitOrder]> = (buf, offset = 0, count?, order = "msb") => {
+	const
+		reader = new BitReader(buf, offset, order),
+		value = reader.readFlags(count ?? reader.remaining)
+	return [value, reader.bytesize]
+}
+
+/** pack a `number[]` run of unsigned integers, each occupying `bitsize` number of bits. the final byte is padded with zero bits. <br>
+ * unlike {@link decode_bitrun}, there is no `array_length` argument preceding the bit `order`, since the number of items is that of the `value`.
+ * however, {@link pack} does accept (and ignore) the `array_length`, so that its arguments match those of {@link unpack}
+*/
+export const encode_bitrun: EncodeFunc<number[], [bitsize: number, order?: BitOrder]> = (value, bitsize, order = "msb") => new BitWriter(order).writeRun(value, bitsize).toBytes()
+
+/** unpack a `number[]` run of unsigned integers, each occupying `bitsize` number of bits.
+ * you should provide the `array_length` (number of items), otherwise the decoder will unpack as many items as can fit in the remaining bits of the buffer
+*/
+export const decode_bitrun: DecodeFunc<number[], [bitsize: number, array_length?: number, order?: BitOrder]> = (buf, offset = 0, bitsize, array_length?, order = "msb") => {
+	const
+		reader = new BitReader(buf, offset, order),
+		value = reader.readRun(array_length ?? Math.floor(reader.remaining / bitsize), bitsize)
+	return [value, reader.bytesize]
+}
+
+/** pack a `number[]` run of signed integers in two's complement, each occupying `bitsize` number of bits. the final byte is padded with zero bits. <br>
+ * unlike {@link decode_ibitrun}, there is no `array_length` argument preceding the bit `order`, since the number of items is that of the `value`.
+ * however, {@link pack} does accept (and ignore) the `array_length`, so that its arguments match those of {@link unpack}
+*/
+export const encode_ibitrun: EncodeFunc<number[], [bitsize: number, order?: BitOrder]> = (value, bitsize, order = "msb") => new BitWriter(order).writeSignedRun(value, bitsize).toBytes()
+
+/** unpack a `number[]` run of signed integers in two's complement, each occupying `bitsize` number of bits.
+ * you should provide the `array_length` (number of items), otherwise the decoder will unpack as many items as can fit in the remaining bits of the buffer
+*/
+export const decode_ibitrun: DecodeFunc<number[], [bitsize: number, array_length?: number, order?: BitOrder]> = (buf, offset = 0, bitsize, array_length?, order = "msb") => {
+	const
+		reader = new BitReader(buf, offset, order),
+		value = reader.readSignedRun(array_length ?? Math.floor(reader.remaining / bitsize), bitsize)
+	return [value, reader.bytesize]
+}
+
+/** the maximum length that can be stored in each fixed-sized {@link LengthHeaderType} */
+const length_header_max: { [header_type in LengthHeaderType]: number } = {
+	"uv": Infinity,
+	"uvl": Infinity,
+	"u1": 0xFF,
+	"u2l": 0xFFFF,
+	"u4l": 0xFFFFFFFF,
+}
+
+/** pack a `string`, `Uint8Array`, or `number[]` along with a header containing its length, as specified by the provided {@link PrefixedArrayType}. <br>
+ * the length stored in the header is the bytesize for `"str"` and `"bytes"`, and the number of items for a {@link NumericArrayType}. <br>
+ * any additional `args` are forwarded to the packer of the array, following its (ignored) length, such as the {@link TextEncoding} of a `"str"`
+*/
+export const encode_prefixed: EncodeFunc<string | Uint8Array | number[] | bigint[], [type: PrefixedArrayType, ...args: any[]]> = (value, type, ...args) => {
+	const
+		[array_type, header_type] = type.split(":") as [PrimitiveArrayType, LengthHeaderType],
+		value_buf = pack(array_type, value, undefined, ...args),
+		length = array_type.endsWith("[]") ? (value as number[] | bigint[]).length : value_buf.length
+	if (length > length_header_max[header_type]) throw new RangeError(`the length ${length} cannot be stored in a "${header_type}" header`)
+	return concatBytes(pack(header_type, length), value_buf)
+}
+
+/** unpack a `string`, `Uint8Array`, or `number[]` that is preceded by a header containing its length, as specified by the provided {@link PrefixedArrayType}. <br>
+ * any additional `args` are forwarded to the unpacker of the array, following its length, such as the {@link TextEncoding} of a `"str"`
+*/
+export const decode_prefixed: DecodeFunc<string | Uint8Array | number[] | bigint[], [type: PrefixedArrayType, ...args: any[]]> = (buf, offset = 0, type, ...args) => {
+	const
+		[array_type, header_type] = type.split(":") as [PrimitiveArrayType, LengthHeaderType],
+		[length, header_bytesize] = unpack(header_type, buf, offset) as Decoded<number>,
+		[value, bytesize] = unpack(array_type, buf, offset + header_bytesize, length, ...args) as Decoded<string | Uint8Array | number[] | bigint[]>
+	return [value, header_bytesize + bytesize]
+}
+
+/** pack a `string`, `Uint8Array`, or `number[]` followed by a terminating `sentinel` value, as specified by the provided {@link TerminatedArrayType}. <br>
+ * the `sentinel` is a byte for `"str"` and `"bytes"`, and an item value for a {@link NumericArrayType}. it defaults to `0`
+*/
+export const encode_terminated: EncodeFunc<string | Uint8Array | number[] | bigint[], [type: TerminatedArrayType, sentinel?: number]> = (value, type, sentinel = 0) => {
+	const array_type = type.slice(0, -2) as PrimitiveArrayType
+	if (array_type.endsWith("[]")) return encode_number_array([...value as (number | bigint)[], sentinel] as number[] | bigint[], array_type as NumericArrayType)
+	return concatBytes(pack(array_type, value), [sentinel])
+}
+
+/** unpack a `string`, `Uint8Array`, or `number[]` that is terminated by a `sentinel` value, as specified by the provided {@link TerminatedArrayType}. <br>
+ * the returned bytesize includes the sentinel. an error is thrown if the sentinel is never found
+*/
+export const decode_terminated: DecodeFunc<string | Uint8Array | number[] | bigint[], [type: TerminatedArrayType, sentinel?: number]> = (buf, offset = 0, type, sentinel = 0) => {
+	const array_type = type.slice(0, -2) as PrimitiveArrayType
+	if (array_type.endsWith("[]")) {
+		const
+			item_type = array_type.slice(0, -2) as NumericType,
+			item_sentinel = isBigIntType(item_type) ? BigInt(sentinel) : sentinel,
+			buf_length = buf.length,
+			array: (number | bigint)[] = []
+		let total_bytesize = 0
+		while (offset + total_bytesize < buf_length) {
+			const [item, bytesize] = decode_number(buf, offset + total_bytesize, item_type)
+			total_bytesize += bytesize
+			if (item === item_sentinel) return [array as number[] | bigint[], total_bytesize]
+			array.push(item)
+		}
+	} else {
+		const offset_end = buf.indexOf(sentinel, offset)
+		if (offset_end >= 0) {
+			const [value, bytesize] = unpack(array_type, buf, offset, offset_end - offset) as Decoded<string | Uint8Array>
+			return [value, bytesize + 1]
+		}
+	}
+	throw new RangeError(`the sentinel value ${sentinel} of "${type}" was not found after offset ${offset}`)
+}
+
+/** check if a {@link NumericType} or {@link NumericArrayType} is represented by `bigint`. this is the case for 64-bit integer types, and unbounded variable-sized integer types */
+const isBigIntType = (type: NumericType | NumericArrayType): boolean => (type[0] === "u" || type[0] === "i") && (type[1] === "8" || type[2] === "n")
+
+/** `DataView` based readers for each {@link NumericDType}, at a given byte position of the view */
+const dataview_getters: { [dtype in NumericDType]: (view: DataView, pos: number, little_endian: boolean) => number | bigint } = {
+	"u1": (view, pos) => view.getUint8(pos),
+	"u1c": (view, pos) => view.getUint8(pos),
+	"i1": (view, pos) => view.getInt8(pos),
+	"u2": (view, pos, le) => view.getUint16(pos, le),
+	"i2": (view, pos, le) => view.getInt16(pos, le),
+	"u4": (view, pos, le) => view.getUint32(pos, le),
+	"i4": (view, pos, le) => view.getInt32(pos, le),
+	"u8": (view, pos, le) => view.getBigUint64(pos, le),
+	"i8": (view, pos, le) => view.getBigInt64(pos, le),
+	"f4": (view, pos, le) => view.getFloat32(pos, le),
+	"f8": (view, pos, le) => view.getFloat64(pos, le),
+}
+
+/** a single element scratch array for replicating the clamping behavior of `Uint8ClampedArray` without allocating */
+const clamped_scratch = new Uint8ClampedArray(1)
+
+/** `DataView` based writers for each {@link NumericDType}, at a given byte position of the view. <br>
+ * the conversion semantics are identical to those of typed arrays (ie integers wrap around, and `"u1c"` clamps)
+*/
+const dataview_setters: { [dtype in NumericDType]: (view: DataView, pos: number, value: number | bigint, little_endian: boolean) => void } = {
+	"u1": (view, pos, value) => view.setUint8(pos, value as number),
+	"u1c": (view, pos, value) => {
+		clamped_scratch[0] = value as number
+		view.setUint8(pos, clamped_scratch[0])
+	},
+	"i1": (view, pos, value) => view.setInt8(pos, value as number),
+	"u2": (view, pos, value, le) => view.setUint16(pos, value as number, le),
+	"i2": (view, pos, value, le) => view.setInt16(pos, value as number, le),
+	"u4": (view, pos, value, le) => view.setUint32(pos, value as number, le),
+	"i4": (view, pos, value, le) => view.setInt32(pos, value as number, le),
+	"u8": (view, pos, value, le) => view.setBigUint64(pos, BigInt(value), le),
+	"i8": (view, pos, value, le) => view.setBigInt64(pos, BigInt(value), le),
+	"f4": (view, pos, value, le) => view.setFloat32(pos, value as number, le),
+	"f8": (view, pos, value, le) => view.setFloat64(pos, value as number, le),
+}
+
+/** a reusable 8-byte scratch buffer for encoding scalar numbers */
+const number_scratch = new Uint8Array(8)
+
+/** a cache of `DataView`s, each spanning the entirety of an `ArrayBuffer`, so that scalar reads and writes do not allocate a new view every time */
+const dataview_cache = new WeakMap<ArrayBufferLike, DataView>()
+
+/** get the cached `DataView` spanning the entirety of the `ArrayBuffer` `buffer` */
+const dataViewOf = (buffer: ArrayBufferLike): DataView => {
+	let view = dataview_cache.get(buffer)
+	if (view === undefined) {
+		view = new DataView(buffer)
+		dataview_cache.set(buffer, view)
+	}
+	return view
+}
+
+/** check if a {@link PrimitiveType} is a {@link FixedNumericType} */
+const isFixedNumericType = (type: PrimitiveType): type is FixedNumericType => /^[uif][1248][lbc]?$/.test(type)
+
+/** get the {@link NumericDType}, the item bytesize, and the endianess of a {@link FixedNumericType} */
+const parseFixedNumericType = (type: FixedNumericType): [dtype: NumericDType, bytesize: number, little_endian: boolean] => [
+	(type[2] === "c" ? "u1c" : type[0] + type[1]) as NumericDType,
+	parseInt(type[1]),
+	type[2] === "l",
+]
+
+/** write a fixed-sized numeric `value` of the given `type` directly into `buf` at position `offset`, through a `DataView`, without any intermediate allocation. <br>
+ * returns the number of bytes written. an error is thrown if `buf` is too small. <br>
+ * the conversion semantics are identical to those of typed arrays (ie integers wrap around, and `"u1c"` clamps)
+*/
+export const writeNumber = (buf: Uint8Array, offset: number, type: FixedNumericType, value: number | bigint): number => {
+	const [dtype, bytesize, little_endian] = parseFixedNumericType(type)
+	if (offset < 0 || offset + bytesize > buf.length) throw new RangeError(`writing "${type}" at offset ${offset} requires ${bytesize} bytes, but the buffer's length is ${buf.length}`)
+	dataview_setters[dtype](dataViewOf(buf.buffer), buf.byteOffset + offset, value, little_endian)
+	return bytesize
+}
+
+/** unpack a fixed-sized numeric array as a {@link TypedArray} of the given {@link FixedNumericType} `type`. <br>
+ * if the `array_length` is not provided, then as many items as possible are unpacked till the end of the buffer. <br>
+ * when the endianess of `type` matches that of the environment, and the position is aligned to the item bytesize,
+ * a zero-copy view into the underlying buffer of `buf` is returned. so mutating it will mutate `buf`. <br>
+ * otherwise, a new typed array is made, and the items are read into it through a `DataView`
+*/
+export const decode_typed_array = (buf: Uint8Array, offset: number = 0, type: FixedNumericType, array_length?: number): Decoded<TypedArray> => {
+	const
+		[dtype, bytesize, little_endian] = parseFixedNumericType(type),
+		is_native_endian = little_endian === env_le || bytesize === 1,
+		available_length = Math.floor((buf.length - offset) / bytesize),
+		length = array_length ?? available_length,
+		byte_offset = buf.byteOffset + offset,
+		typed_arr_constructor = typed_array_constructor_of(dtype)
+	if (length > available_length) throw new RangeError(`unpacking ${length} items of "${type}" at offset ${offset} requires ${length * bytesize} bytes, but only ${buf.length - offset} remain`)
+	if (is_native_endian) {
+		if (byte_offset % bytesize === 0) return [new typed_arr_constructor(buf.buffer, byte_offset, length), length * bytesize]
+		return [new typed_arr_constructor(buf.buffer.slice(byte_offset, byte_offset + length * bytesize)), length * bytesize]
+	}
+	const
+		typed_arr = new typed_arr_constructor(length),
+		getter = dataview_getters[dtype],
+		view = dataViewOf(buf.buffer)
+	for (let i = 0; i < length; i++) typed_arr[i] = getter(view, byte_offset + i * bytesize, little_endian)
+	return [typed_arr, length * bytesize]
+}
+
+/** pack a numeric array (`number[]`) in the provided {@link NumericArrayType} byte representation. <br>
+ * the 64-bit integer types (`"u8l[]"`, `"u8b[]"`, `"i8l[]"`, `"i8b[]"`) accept both `bigint`s and integer `number`s. <br>
+ * for the fixed bytesize types, the output buffer is drawn from the `pool` when one is provided (see {@link BufferPool}), so that it can be released back after use
+*/
+export const encode_number_array: EncodeFunc<number[] | bigint[], [type: NumericArrayType, pool?: BufferPool]> = (value, type, pool?) => {
 	const [t, s, e] = type
-	if (s === "v") return t === "u" ? encode_uvar_array(value) : encode_ivar_array(value)
+	if (s === "v") {
+		if (e === "n") return t === "u" ? encode_uvarn_array(value) : encode_ivarn_array(value)
+		if (e === "l") return t === "u" ? encode_uleb128_array(value as number[]) : encode_sleb128_array(value as number[])
+		if (e === "z") return encode_zigzag_array(value as number[])
+		return t === "u" ? encode_uvar_array(value as number[]) : encode_ivar_array(value as number[])
+	}
 	const
-		typed_arr_constructor = typed_array_constructor_of(type as Exclude<NumericArrayType, "uv[]" | "iv[]">),
-		bytesize = parseInt(s) as (1 | 2 | 4 | 8),
-		is_native_endian = (e === "l" && env_le) || (e === "b" && !env_le) || bytesize === 1 ? true : false,
-		typed_arr: TypedArray = typed_arr_constructor.from(value)
-	if (typed_arr instanceof Uint8Array) return typed_arr
-	const buf = new Uint8Array(typed_arr.buffer)
-	if (is_native_endian) return buf
-	else return swapEndianessFast(buf, bytesize)
-}
-
-/** unpack a numeric array (`number[]`) that's encoded in one of {@link NumericArrayType} byte representation. you must provide the `array_length` of the array being decoded, otherwise the decoder will unpack till the end of the buffer */
-export const decode_number_array: DecodeFunc<number[], [type: NumericArrayType, array_length?: number]> = (buf, offset = 0, type, array_length?) => {
+		[dtype, bytesize, little_endian] = parseFixedNumericType(type.slice(0, -2) as FixedNumericType),
+		is_native_endian = little_endian === env_le || bytesize === 1,
+		len = value.length,
+		buf = pool?.acquire(len * bytesize) ?? new Uint8Array(len * bytesize)
+	if (is_native_endian) {
+		// the typed array is a view over `buf`, thus the items get written into `buf` without an additional copy
+		const typed_arr = new (typed_array_constructor_of(dtype))(buf.buffer, buf.byteOffset, len)
+		if (isBigIntType(type)) for (let i = 0; i < len; i++) typed_arr[i] = BigInt(value[i])
+		else (typed_arr as Float64Array).set(value as number[])
+	} else {
+		const
+			setter = dataview_setters[dtype],
+			view = new DataView(buf.buffer, buf.byteOffset, buf.byteLength)
+		for (let i = 0; i < len; i++) setter(view, i * bytesize, value[i], little_endian)
+	}
+	return buf
+}
+
+/** unpack a numeric array (`number[]`) that's encoded in one of {@link NumericArrayType} byte representation. you must provide the `array_length` of the array being decoded, otherwise the decoder will unpack till the end of the buffer <br>
+ * the 64-bit integer types (`"u8l[]"`, `"u8b[]"`, `"i8l[]"`, `"i8b[]"`) are unpacked as `bigint[]`. <br>
+ * if you would rather have a {@link TypedArray} (possibly without any copying), use {@link decode_typed_array} instead
+*/
+export const decode_number_array: DecodeFunc<number[] | bigint[], [type: NumericArrayType, array_length?: number]> = (buf, offset = 0, type, array_length?) => {
 	const [t, s, e] = type
-	if (s === "v") return t === "u" ? decode_uvar_array(buf, offset, array_length) : decode_ivar_array(buf, offset, array_length)
+	if (s === "v") {
+		if (e === "n") return t === "u" ? decode_uvarn_array(buf, offset, array_length) : decode_ivarn_array(buf, offset, array_length)
+		if (e === "l") return t === "u" ? decode_uleb128_array(buf, offset, array_length) : decode_sleb128_array(buf, offset, array_length)
+		if (e === "z") return decode_zigzag_array(buf, offset, array_length)
+		return t === "u" ? decode_uvar_array(buf, offset, array_length) : decode_ivar_array(buf, offset, array_length)
+	}
 	const
-		bytesize = parseInt(s) as (1 | 2 | 4 | 8),
-		is_native_endian = (e === "l" && env_le) || (e === "b" && !env_le) || bytesize === 1 ? true : false,
-		bytelength = array_length ? bytesize * array_length : undefined,
-		array_buf = buf.slice(offset, bytelength ? offset + bytelength : undefined),
-		array_bytesize = array_buf.length,
-		typed_arr_constructor = typed_array_constructor_of(type as Exclude<NumericArrayType, "uv[]" | "iv[]">),
-		typed_arr: TypedArray = new typed_arr_constructor(is_native_endian ? array_buf.buffer : swapEndianessFast(array_buf, bytesize).buffer)
-	return [Array.from(typed_arr), array_bytesize]
-}
-
-/** pack a `number` in the provided {@link NumericType} byte representation */
-export const encode_number: EncodeFunc<number, [type: NumericType]> = (value, type) => encode_number_array([value,], type as NumericArrayType)
-
-/** unpack a `number` in the provided {@link NumericType} byte representation */
-export const decode_number: DecodeFunc<number, [type: NumericType]> = (buf, offset = 0, type) => {
-	const [value_arr, bytesize] = decode_number_array(buf, offset, type as NumericArrayType, 1)
-	return [value_arr[0], bytesize]
+		[dtype, bytesize, little_endian] = parseFixedNumericType(type.slice(0, -2) as FixedNumericType),
+		byte_offset = buf.byteOffset + offset,
+		available_length = Math.floor((buf.length - offset) / bytesize),
+		length = array_length ?? available_length,
+		array: (number | bigint)[] = new Array(length)
+	if (length > available_length) throw new RangeError(`unpacking ${length} items of "${type}" at offset ${offset} requires ${length * bytesize} bytes, but only ${buf.length - offset} remain`)
+	// a plain loop is used for filling the output array, because it is considerably faster than `Array.from` on a typed array
+	if ((little_endian === env_le || bytesize === 1) && byte_offset % bytesize === 0) {
+		// aligned native endian items are read through a zero-copy typed array view
+		const typed_arr = new (typed_array_constructor_of(dtype))(buf.buffer, byte_offset, length)
+		for (let i = 0; i < length; i++) array[i] = typed_arr[i]
+	} else {
+		// unaligned or foreign endian items are read through a `DataView`, skipping any intermediate copy
+		const
+			getter = dataview_getters[dtype],
+			view = dataViewOf(buf.buffer)
+		for (let i = 0; i < length; i++) array[i] = getter(view, byte_offset + i * bytesize, little_endian)
+	}
+	return [array as number[] | bigint[], length * bytesize]
+}
+
+/** pack a `number` in the provided {@link NumericType} byte representation. 64-bit integer types accept a `bigint` too. <br>
+ * fixed-sized numeric types are written through a `DataView` (see {@link writeNumber})
+*/
+export const encode_number: EncodeFunc<number | bigint, [type: NumericType]> = (value, type) => {
+	if (!isFixedNumericType(type)) return encode_number_array([value,] as number[] | bigint[], type + "[]" as NumericArrayType)
+	// the value is first written into a reusable scratch buffer, so that only the returned array gets allocated
+	return number_scratch.slice(0, writeNumber(number_scratch, 0, type, value))
+}
+
+/** unpack a `number` in the provided {@link NumericType} byte representation. 64-bit integer types are unpacked as a `bigint`. <br>
+ * fixed-sized numeric types are read through a `DataView`, without any allocations or copying
+*/
+export const decode_number: DecodeFunc<number | bigint, [type: NumericType]> = (buf, offset = 0, type) => {
+	if (!isFixedNumericType(type)) {
+		const [value_arr, bytesize] = decode_number_array(buf, offset, type + "[]" as NumericArrayType, 1)
+		return [value_arr[0], bytesize]
+	}
+	const [dtype, bytesize, little_endian] = parseFixedNumericType(type)
+	if (offset < 0 || offset + bytesize > buf.length) throw new RangeError(`unpacking "${type}" at offset ${offset} requires ${bytesize} bytes, but the buffer's length is ${buf.length}`)
+	return [dataview_getters[dtype](dataViewOf(buf.buffer), buf.byteOffset + offset, little_endian), bytesize]
 }
 
 /** `uvar` stands for unsigned variable-sized integer <br>
@@ -206,47 +960,18 @@ export const decode_number: DecodeFunc<number, [type: NumericType]> = (buf, offs
  * | 16383 = 2^14 - 1 | 0b00000000 0b00000000 0b00111111 0b11111111 | 0b11111111 0b01111111            |
  * | 16384 = 2^14     | 0b00000000 0b00000000 0b01000000 0b00000000 | 0b10000001 0b10000000 0b00000000 |
  * <br>
- * this encoding is especially useful for encoding the length of other variables as in their header (begining of their sequence)
+ * this encoding is especially useful for encoding the length of other variables as in their header (begining of their sequence) <br>
+ * values are exact up to `Number.MAX_SAFE_INTEGER`. for larger integers, use the `bigint` version {@link encode_uvarn} (the `"uvn"` type), which shares the same binary format
 */
 export const encode_uvar: EncodeFunc<number> = (value) => encode_uvar_array([value,])
 
-/// the old implementation, which was designed for a single `number` and was easier to read, has been kept here for refence.
-/*
-const encode_uvar: EncodeFunc<number | bigint> = (value) => {
-	value = BigInt(value) * (value >= 0 ? 1n : -1n) // converting to absolute value
-	const lsb_to_msb: number[] = []
-	do {
-		lsb_to_msb.push(Number((value & 0b01111111n) + 0b10000000n))
-		value >>= 7n
-	} while (value > 0n)
-	lsb_to_msb[0] &= 0b01111111
-	return Uint8Array.from(lsb_to_msb.reverse())
-}
-*/
-
 /** see {@link encode_uvar} */
 export const decode_uvar: DecodeFunc<number> = (buf, offset = 0) => {
 	const [value_arr, bytesize] = decode_uvar_array(buf, offset, 1)
 	return [value_arr[0], bytesize]
 }
 
-/// the old implementation, which was designed for a single `number` and was easier to read, has been kept here for refence.
-/*
-const decode_uvar: DecodeFunc<number> = (buf, offset = 0) => {
-	const offset_start = offset
-	let
-		byte: number,
-		value: bigint = 0n
-	do {
-		byte = buf[offset++]
-		value <<= 7n
-		value += BigInt(byte & 0b01111111)
-	} while (byte >> 7 === 1)
-	return [Number(value), offset - offset_start]
-}
-*/
-
-/** array encode version of {@link encode_ivar} */
+/** array encode version of {@link encode_uvar} */
 export const encode_uvar_array: EncodeFunc<number[]> = (value) => {
 	const
 		len = value.length,
@@ -255,9 +980,10 @@ export const encode_uvar_array: EncodeFunc<number[]> = (value) => {
 		let v = value[i]
 		v = v * (v >= 0 ? 1 : -1) // converting to absolute value
 		const lsb_to_msb: number[] = []
+		// arithmetic division is used instead of bitwise shifting, because bitwise operators truncate numbers to 32-bits
 		do {
-			lsb_to_msb.push((v & 0b01111111) + 0b10000000)
-			v >>= 7
+			lsb_to_msb.push((v % 0b10000000) + 0b10000000)
+			v = Math.floor(v / 0b10000000)
 		} while (v > 0)
 		lsb_to_msb[0] &= 0b01111111
 		bytes.push(...lsb_to_msb.reverse())
@@ -265,30 +991,33 @@ export const encode_uvar_array: EncodeFunc<number[]> = (value) => {
 	return Uint8Array.from(bytes)
 }
 
-
-/** array decode version of {@link decode_uvar} */
-const decode_uvar_array: DecodeFunc<number[], [array_length?: number]> = (buf, offset = 0, array_length?) => {
-	if (array_length === undefined) array_length = Infinity
+/** array decode version of {@link decode_uvar}. <br>
+ * if `array_length` is `undefined`, then the decoder will unpack till the end of the buffer. <br>
+ * an error is thrown if the final varint is truncated (its continuation bit is set on the last byte of the buffer),
+ * or if fewer than `array_length` number of items could be decoded
+*/
+export const decode_uvar_array: DecodeFunc<number[], [array_length?: number]> = (buf, offset = 0, array_length?) => {
 	const
+		max_length = array_length ?? Infinity,
 		array: number[] = [],
 		offset_start = offset,
 		buf_length = buf.length
 	// this is a condensed version of {@link decode_uvar}
-	let value = 0
-	for (let byte = buf[offset++]; array_length > 0 && offset < buf_length + 1; byte = buf[offset++]) {
-		value <<= 7
-		value += byte & 0b01111111
+	let
+		byte = 0,
+		value = 0
+	while (array.length < max_length && offset < buf_length) {
+		byte = buf[offset++]
+		value = value * 0b10000000 + (byte & 0b01111111)
 		if (byte >> 7 === 0) {
 			array.push(value)
-			array_length--
 			value = 0
 		}
 	}
-	offset--
+	assertVarintComplete("uv", offset_start, byte, array.length, array_length)
 	return [array, offset - offset_start]
 }
 
-
 /** `ivar` stands for signed variable-sized integer <br>
  * it's similar to `uvar` (see {@link encode_uvar}), except that in the first byte, the second-major bit `Z` of the octet (0b0ZYYYYYY), signals whether the number is positive (Z == 0), or negative (Z == 1) <br>
  * the following table lists the first few bounds of this encoding: <br>
@@ -300,50 +1029,16 @@ const decode_uvar_array: DecodeFunc<number[], [array_length?: number]> = (buf, o
  * |  8191 =   2^13 - 1  | 0b00000000 0b00000000 0b00011111 0b11111111 | 0b10111111 0b01111111            |
  * | -8191 = -(2^13 - 1) | 0b00000000 0b00000000 0b11100000 0b00000001 | 0b11111111 0b01111111            |
  * <br>
+ * values are exact up to `Number.MAX_SAFE_INTEGER` in magnitude. for larger integers, use the `bigint` version {@link encode_ivarn} (the `"ivn"` type), which shares the same binary format
 */
 export const encode_ivar: EncodeFunc<number> = (value) => encode_ivar_array([value,])
 
-/// the old implementation, which was designed for a single `number` and was easier to read, has been kept here for refence.
-/*
-const encode_ivar: EncodeFunc<number | bigint> = (value) => {
-	const
-		sign = value >= 0 ? 1n : -1n,
-		lsb_to_msb: number[] = []
-	value = BigInt(value) * sign // `val` is now positive
-	while (value > 0b00111111n) {
-		lsb_to_msb.push(Number((value & 0b01111111n) + 0b10000000n))
-		value >>= 7n
-	}
-	lsb_to_msb.push(Number((value & 0b00111111n) | (sign == -1n ? 0b11000000n : 0b10000000n)))
-	lsb_to_msb[0] &= 0b01111111
-	return Uint8Array.from(lsb_to_msb.reverse())
-}
-*/
-
 /** see {@link encode_ivar} */
 export const decode_ivar: DecodeFunc<number> = (buf, offset = 0) => {
 	const [value_arr, bytesize] = decode_ivar_array(buf, offset, 1)
 	return [value_arr[0], bytesize]
 }
 
-/// the old implementation, which was designed for a single `number` and was easier to read, has been kept here for refence.
-/*
-const decode_ivar: DecodeFunc<number> = (buf, offset = 0) => {
-	const offset_start = offset
-	let
-		byte: number = buf[offset++],
-		sign: bigint = (byte & 0b01000000) > 0n ? -1n : 1n,
-		value: bigint = BigInt(byte & 0b00111111)
-	while (byte >> 7 === 1) {
-		byte = buf[offset++]
-		value <<= 7n
-		value += BigInt(byte & 0b01111111)
-	}
-	value *= sign
-	return [Number(value), offset - offset_start]
-}
-*/
-
 /** array encode version of {@link encode_ivar} */
 export const encode_ivar_array: EncodeFunc<number[]> = (value) => {
 	const
@@ -355,9 +1050,10 @@ export const encode_ivar_array: EncodeFunc<number[]> = (value) => {
 			sign = v >= 0 ? 1 : -1,
 			lsb_to_msb: number[] = []
 		v = v * sign // `v` is now positive
+		// arithmetic division is used instead of bitwise shifting, because bitwise operators truncate numbers to 32-bits
 		while (v > 0b00111111) {
-			lsb_to_msb.push((v & 0b01111111) + 0b10000000)
-			v >>= 7
+			lsb_to_msb.push((v % 0b10000000) + 0b10000000)
+			v = Math.floor(v / 0b10000000)
 		}
 		lsb_to_msb.push((v & 0b00111111) | (sign == -1 ? 0b11000000 : 0b10000000))
 		lsb_to_msb[0] &= 0b01111111
@@ -366,33 +1062,372 @@ export const encode_ivar_array: EncodeFunc<number[]> = (value) => {
 	return Uint8Array.from(bytes)
 }
 
-
-/** array decode version of {@link decode_ivar} */
+/** array decode version of {@link decode_ivar}. <br>
+ * if `array_length` is `undefined`, then the decoder will unpack till the end of the buffer. <br>
+ * an error is thrown if the final varint is truncated (its continuation bit is set on the last byte of the buffer),
+ * or if fewer than `array_length` number of items could be decoded
+*/
 export const decode_ivar_array: DecodeFunc<number[], [array_length?: number]> = (buf, offset = 0, array_length?) => {
-	if (array_length === undefined) array_length = Infinity
 	const
+		max_length = array_length ?? Infinity,
 		array: number[] = [],
 		offset_start = offset,
 		buf_length = buf.length
 	// this is a condensed version of {@link decode_ivar}
 	let
+		byte = 0,
 		sign: (1 | 0 | -1) = 0,
 		value: number = 0
-	for (let byte = buf[offset++]; array_length > 0 && offset < buf_length + 1; byte = buf[offset++]) {
+	while (array.length < max_length && offset < buf_length) {
+		byte = buf[offset++]
 		if (sign === 0) {
 			sign = (byte & 0b01000000) > 0 ? -1 : 1
 			value = (byte & 0b00111111)
 		} else {
-			value <<= 7
-			value += byte & 0b01111111
+			value = value * 0b10000000 + (byte & 0b01111111)
 		}
 		if (byte >> 7 === 0) {
 			array.push(value * sign)
-			array_length--
 			sign = 0
 			value = 0
 		}
 	}
-	offset--
+	assertVarintComplete("iv", offset_start, byte, array.length, array_length)
+	return [array, offset - offset_start]
+}
+
+/** `uvarn` is the unbounded `bigint` version of `uvar` (see {@link encode_uvar}), and it shares the exact same binary format. <br>
+ * it is used by the `"uvn"` {@link NumericType}. a regular integer `number` may also be provided, but it will be decoded as a `bigint`
+*/
+export const encode_uvarn: EncodeFunc<number | bigint> = (value) => encode_uvarn_array([value,] as bigint[])
+
+/** see {@link encode_uvarn} */
+export const decode_uvarn: DecodeFunc<bigint> = (buf, offset = 0) => {
+	const [value_arr, bytesize] = decode_uvarn_array(buf, offset, 1)
+	return [value_arr[0], bytesize]
+}
+
+/** array encode version of {@link encode_uvarn} */
+export const encode_uvarn_array: EncodeFunc<number[] | bigint[]> = (value) => {
+	const
+		len = value.length,
+		bytes: number[] = []
+	for (let i = 0; i < len; i++) {
+		let v = BigInt(value[i])
+		v = v * (v >= 0n ? 1n : -1n) // converting to absolute value
+		const lsb_to_msb: number[] = []
+		do {
+			lsb_to_msb.push(Number((v & 0b01111111n) + 0b10000000n))
+			v >>= 7n
+		} while (v > 0n)
+		lsb_to_msb[0] &= 0b01111111
+		bytes.push(...lsb_to_msb.reverse())
+	}
+	return Uint8Array.from(bytes)
+}
+
+/** array decode version of {@link decode_uvarn}. see {@link decode_uvar_array} for the error conditions */
+export const decode_uvarn_array: DecodeFunc<bigint[], [array_length?: number]> = (buf, offset = 0, array_length?) => {
+	const
+		max_length = array_length ?? Infinity,
+		array: bigint[] = [],
+		offset_start = offset,
+		buf_length = buf.length
+	let
+		byte = 0,
+		value = 0n
+	while (array.length < max_length && offset < buf_length) {
+		byte = buf[offset++]
+		value = (value << 7n) + BigInt(byte & 0b01111111)
+		if (byte >> 7 === 0) {
+			array.push(value)
+			value = 0n
+		}
+	}
+	assertVarintComplete("uvn", offset_start, byte, array.length, array_length)
+	return [array, offset - offset_start]
+}
+
+/** `ivarn` is the unbounded `bigint` version of `ivar` (see {@link encode_ivar}), and it shares the exact same binary format. <br>
+ * it is used by the `"ivn"` {@link NumericType}. a regular integer `number` may also be provided, but it will be decoded as a `bigint`
+*/
+export const encode_ivarn: EncodeFunc<number | bigint> = (value) => encode_ivarn_array([value,] as bigint[])
+
+/** see {@link encode_ivarn} */
+export const decode_ivarn: DecodeFunc<bigint> = (buf, offset = 0) => {
+	const [value_arr, bytesize] = decode_ivarn_array(buf, offset, 1)
+	return [value_arr[0], bytesize]
+}
+
+/** array encode version of {@link encode_ivarn} */
+export const encode_ivarn_array: EncodeFunc<number[] | bigint[]> = (value) => {
+	const
+		len = value.length,
+		bytes: number[] = []
+	for (let i = 0; i < len; i++) {
+		let v = BigInt(value[i])
+		const
+			sign = v >= 0n ? 1n : -1n,
+			lsb_to_msb: number[] = []
+		v = v * sign // `v` is now positive
+		while (v > 0b00111111n) {
+			lsb_to_msb.push(Number((v & 0b01111111n) + 0b10000000n))
+			v >>= 7n
+		}
+		lsb_to_msb.push(Number((v & 0b00111111n) | (sign == -1n ? 0b11000000n : 0b10000000n)))
+		lsb_to_msb[0] &= 0b01111111
+		bytes.push(...lsb_to_msb.reverse())
+	}
+	return Uint8Array.from(bytes)
+}
+
+/** array decode version of {@link decode_ivarn}. see {@link decode_ivar_array} for the error conditions */
+export const decode_ivarn_array: DecodeFunc<bigint[], [array_length?: number]> = (buf, offset = 0, array_length?) => {
+	const
+		max_length = array_length ?? Infinity,
+		array: bigint[] = [],
+		offset_start = offset,
+		buf_length = buf.length
+	let
+		byte = 0,
+		sign: (1n | 0n | -1n) = 0n,
+		value = 0n
+	while (array.length < max_length && offset < buf_length) {
+		byte = buf[offset++]
+		if (sign === 0n) {
+			sign = (byte & 0b01000000) > 0 ? -1n : 1n
+			value = BigInt(byte & 0b00111111)
+		} else {
+			value = (value << 7n) + BigInt(byte & 0b01111111)
+		}
+		if (byte >> 7 === 0) {
+			array.push(value * sign)
+			sign = 0n
+			value = 0n
+		}
+	}
+	assertVarintComplete("ivn", offset_start, byte, array.length, array_length)
+	return [array, offset - offset_start]
+}
+
+/** `uleb128` stands for unsigned little endian base 128, which is the variable-sized integer format used by protobuf, WebAssembly, and DWARF. <br>
+ * it is used by the `"uvl"` {@link NumericType}. <br>
+ * just like `uvar` (see {@link encode_uvar}), the first bit of every octet (0bXYYYYYYY) signals whether the integer carries on to the next byte (X == 1) or not (X == 0). <br>
+ * however, the data bytes (YYYYYYY) are ordered from the least significant group to the most significant group (little endian). <br>
+ * you can read more about it on [wikipedia](https://en.wikipedia.org/wiki/LEB128). <br>
+ * | decimal | unsigned LEB128 binary           |
+ * |---------|----------------------------------|
+ * | 0       | 0b00000000                       |
+ * | 127     | 0b01111111                       |
+ * | 128     | 0b10000000 0b00000001            |
+ * | 624485  | 0b11100101 0b10001110 0b00100110 |
+ * <br>
+ * values are exact up to `Number.MAX_SAFE_INTEGER`. negative values are converted to their absolute value
+*/
+export const encode_uleb128: EncodeFunc<number> = (value) => encode_uleb128_array([value,])
+
+/** see {@link encode_uleb128} */
+export const decode_uleb128: DecodeFunc<number> = (buf, offset = 0) => {
+	const [value_arr, bytesize] = decode_uleb128_array(buf, offset, 1)
+	return [value_arr[0], bytesize]
+}
+
+/** array encode version of {@link encode_uleb128} */
+export const encode_uleb128_array: EncodeFunc<number[]> = (value) => {
+	const
+		len = value.length,
+		bytes: number[] = []
+	for (let i = 0; i < len; i++) {
+		let v = value[i]
+		v = v * (v >= 0 ? 1 : -1) // converting to absolute value
+		while (v > 0b01111111) {
+			bytes.push((v % 0b10000000) + 0b10000000)
+			v = Math.floor(v / 0b10000000)
+		}
+		bytes.push(v)
+	}
+	return Uint8Array.from(bytes)
+}
+
+/** array decode version of {@link decode_uleb128}. see {@link decode_uvar_array} for the error conditions */
+export const decode_uleb128_array: DecodeFunc<number[], [array_length?: number]> = (buf, offset = 0, array_length?) => {
+	const
+		max_length = array_length ?? Infinity,
+		array: number[] = [],
+		offset_start = offset,
+		buf_length = buf.length
+	let
+		byte = 0,
+		value = 0,
+		multiplier = 1
+	while (array.length < max_length && offset < buf_length) {
+		byte = buf[offset++]
+		value += (byte & 0b01111111) * multiplier
+		multiplier *= 0b10000000
+		if (byte >> 7 === 0) {
+			array.push(value)
+			value = 0
+			multiplier = 1
+		}
+	}
+	assertVarintComplete("uvl", offset_start, byte, array.length, array_length)
 	return [array, offset - offset_start]
 }
+
+/** `sleb128` stands for signed little endian base 128, which is the two's complement variant of {@link encode_uleb128}, used by WebAssembly and DWARF. <br>
+ * it is used by the `"ivl"` {@link NumericType}. <br>
+ * the second-major bit of the final octet is the sign bit, which gets extended to the remaining (infinite) most significant bits. <br>
+ * | decimal | signed LEB128 binary             |
+ * |---------|----------------------------------|
+ * |  0      | 0b00000000                       |
+ * |  63     | 0b00111111                       |
+ * | -64     | 0b01000000                       |
+ * |  64     | 0b11000000 0b00000000            |
+ * | -123456 | 0b11000000 0b10111011 0b01111000 |
+ * <br>
+ * values are exact up to `Number.MAX_SAFE_INTEGER` in magnitude
+*/
+export const encode_sleb128: EncodeFunc<number> = (value) => encode_sleb128_array([value,])
+
+/** see {@link encode_sleb128} */
+export const decode_sleb128: DecodeFunc<number> = (buf, offset = 0) => {
+	const [value_arr, bytesize] = decode_sleb128_array(buf, offset, 1)
+	return [value_arr[0], bytesize]
+}
+
+/** array encode version of {@link encode_sleb128} */
+export const encode_sleb128_array: EncodeFunc<number[]> = (value) => {
+	const
+		len = value.length,
+		bytes: number[] = []
+	for (let i = 0; i < len; i++) {
+		let
+			v = value[i],
+			byte: number
+		// floored division and modulo emulate an arithmetic right shift without truncating numbers to 32-bits
+		while (true) {
+			byte = ((v % 0b10000000) + 0b10000000) % 0b10000000
+			v = Math.floor(v / 0b10000000)
+			if ((v === 0 && (byte & 0b01000000) === 0) || (v === -1 && (byte & 0b01000000) !== 0)) break
+			bytes.push(byte + 0b10000000)
+		}
+		bytes.push(byte)
+	}
+	return Uint8Array.from(bytes)
+}
+
+/** array decode version of {@link decode_sleb128}. see {@link decode_uvar_array} for the error conditions */
+export const decode_sleb128_array: DecodeFunc<number[], [array_length?: number]> = (buf, offset = 0, array_length?) => {
+	const
+		max_length = array_length ?? Infinity,
+		array: number[] = [],
+		offset_start = offset,
+		buf_length = buf.length
+	// the bitwise complement of the value is accumulated alongside, so that negative values can be computed without exceeding `Number.MAX_SAFE_INTEGER`
+	let
+		byte = 0,
+		value = 0,
+		complement = 0,
+		multiplier = 1
+	while (array.length < max_length && offset < buf_length) {
+		byte = buf[offset++]
+		value += (byte & 0b01111111) * multiplier
+		complement += (~byte & 0b01111111) * multiplier
+		multiplier *= 0b10000000
+		if (byte >> 7 === 0) {
+			// extend the sign bit of the final octet
+			array.push(byte & 0b01000000 ? -complement - 1 : value)
+			value = 0
+			complement = 0
+			multiplier = 1
+		}
+	}
+	assertVarintComplete("ivl", offset_start, byte, array.length, array_length)
+	return [array, offset - offset_start]
+}
+
+/** `zigzag` is the signed integer encoding used by protobuf's `sint32` and `sint64`, where the sign is interleaved into the least significant bit,
+ * and then the result is encoded as an unsigned LEB128 (see {@link encode_uleb128}). <br>
+ * it is used by the `"ivz"` {@link NumericType}. small magnitude integers, whether positive or negative, occupy fewer bytes. <br>
+ * | decimal | zigzag mapping | zigzag LEB128 binary  |
+ * |---------|----------------|-----------------------|
+ * |  0      | 0              | 0b00000000            |
+ * | -1      | 1              | 0b00000001            |
+ * |  1      | 2              | 0b00000010            |
+ * | -64     | 127            | 0b01111111            |
+ * |  64     | 128            | 0b10000000 0b00000001 |
+ * <br>
+ * values are exact up to `Number.MAX_SAFE_INTEGER` in magnitude
+*/
+export const encode_zigzag: EncodeFunc<number> = (value) => encode_zigzag_array([value,])
+
+/** see {@link encode_zigzag} */
+export const decode_zigzag: DecodeFunc<number> = (buf, offset = 0) => {
+	const [value_arr, bytesize] = decode_zigzag_array(buf, offset, 1)
+	return [value_arr[0], bytesize]
+}
+
+/** array encode version of {@link encode_zigzag} */
+export const encode_zigzag_array: EncodeFunc<number[]> = (value) => {
+	const
+		len = value.length,
+		bytes: number[] = []
+	for (let i = 0; i < len; i++) {
+		const
+			v = value[i],
+			sign_bit = v < 0 ? 1 : 0
+		// the zigzag mapping is `2 * k + sign_bit`, but it is never computed directly, so that it does not exceed `Number.MAX_SAFE_INTEGER`
+		let
+			k = v < 0 ? -v - 1 : v,
+			byte = (k % 0b01000000) * 2 + sign_bit
+		k = Math.floor(k / 0b01000000)
+		while (k > 0) {
+			bytes.push(byte + 0b10000000)
+			byte = k % 0b10000000
+			k = Math.floor(k / 0b10000000)
+		}
+		bytes.push(byte)
+	}
+	return Uint8Array.from(bytes)
+}
+
+/** array decode version of {@link decode_zigzag}. see {@link decode_uvar_array} for the error conditions */
+export const decode_zigzag_array: DecodeFunc<number[], [array_length?: number]> = (buf, offset = 0, array_length?) => {
+	const
+		max_length = array_length ?? Infinity,
+		array: number[] = [],
+		offset_start = offset,
+		buf_length = buf.length
+	// the least significant bit of the first octet is the sign bit, and the remaining bits accumulate `k` of the zigzag mapping `2 * k + sign_bit`
+	let
+		byte = 0,
+		sign_bit = -1,
+		k = 0,
+		multiplier = 1
+	while (array.length < max_length && offset < buf_length) {
+		byte = buf[offset++]
+		if (sign_bit < 0) {
+			sign_bit = byte & 1
+			k = (byte & 0b01111111) >> 1
+			multiplier = 0b01000000
+		} else {
+			k += (byte & 0b01111111) * multiplier
+			multiplier *= 0b10000000
+		}
+		if (byte >> 7 === 0) {
+			array.push(sign_bit === 1 ? -k - 1 : k)
+			sign_bit = -1
+			k = 0
+		}
+	}
+	assertVarintComplete("ivz", offset_start, byte, array.length, array_length)
+	return [array, offset - offset_start]
+}
+
+/** throw an error if a varint array decoder stopped in the middle of a varint (ie the `last_byte` read still had its continuation bit set),
+ * or if it decoded fewer items than the requested `array_length`
+*/
+const assertVarintComplete = (type: "uv" | "iv" | "uvn" | "ivn" | "uvl" | "ivl" | "ivz", offset: number, last_byte: number, decoded_length: number, array_length?: number): void => {
+	if (last_byte >> 7 === 1) throw new RangeError(`truncated "${type}" varint: the buffer ended with its continuation bit set (decoding started at offset ${offset})`)
+	if (array_length !== undefined && decoded_length < array_length) throw new RangeError(`truncated "${type}[]" varint array: only ${decoded_length} out of ${array_length} items could be decoded (decoding started at offset ${offset})`)
+}
@@ -0,0 +1,291 @@
+/** utility functions for incrementally unpacking bytes from a stream of chunked data. <br>
+ * this is the streaming counterpart of the `eightpack` module, for when the data being decoded is too large to be held in memory all at once.
+ * @module
+*/
+
+import { codeUnitBytesizeOf, Decoded, JSPrimitive, JSPrimitiveOf, MissingTerminatorPolicy, PrimitiveArrayType, PrimitiveType, TextEncoding, unpack } from "./eightpack"
+import { NumericType } from "./typedefs"
+
+/** a source of `Uint8Array` chunks that a {@link StreamReader} can consume */
+export type ChunkSource = ReadableStream<Uint8Array> | AsyncIterable<Uint8Array>
+
+/** iterate over the chunks of a `ReadableStream`, without relying on the availability of its (not so widely supported) async iterator */
+const iterateReadableStream = async function* (stream: ReadableStream<Uint8Array>): AsyncGenerator<Uint8Array> {
+	const reader = stream.getReader()
+	try {
+		while (true) {
+			const { done, value } = await reader.read()
+			if (done) return
+			yield value
+		}
+	} finally {
+		reader.releaseLock()
+	}
+}
+
+/** an incremental reader that awaits {@link unpack}-style reads over a stream of `Uint8Array` chunks. <br>
+ * chunks are pulled from the `source` only when they are needed, and any unconsumed bytes are buffered across chunk boundaries.
+ * so, values which span multiple chunks (such as a `"cstr"` or a varint) are decoded correctly. <br>
+ * bytes that have already been read are discarded, thus the memory footprint stays proportional to the largest single read.
+ * @example
+ * ```ts
+ * const reader = new StreamReader(file.stream())
+ * const [magic, version] = await reader.readSeq(["str", 4], ["u2l"])
+ * while (!(await reader.atEnd())) {
+ * 	const record_name = await reader.read("cstr")
+ * 	const record_data = await reader.read("bytes:uv")
+ * }
+ * ```
+*/
+export class StreamReader {
+	/** the iterator of the chunk source */
+	protected readonly chunks: AsyncIterator<Uint8Array>
+	/** the currently buffered bytes. the unconsumed portion begins at {@link pos} */
+	protected buf: Uint8Array = new Uint8Array(0)
+	/** the backing storage of {@link buf}, which begins with the same bytes, and has spare capacity after them for appending more chunks */
+	protected storage: Uint8Array = new Uint8Array(0)
+	/** the position of the first unconsumed byte within {@link buf} */
+	protected pos: number = 0
+	/** becomes `true` once the chunk source has been exhausted */
+	protected done: boolean = false
+	/** the total number of bytes consumed from the beginning of the stream */
+	offset: number = 0
+
+	constructor(source: ChunkSource) {
+		this.chunks = (Symbol.asyncIterator in source ?
+			source as AsyncIterable<Uint8Array> :
+			iterateReadableStream(source as ReadableStream<Uint8Array>)
+		)[Symbol.asyncIterator]()
+	}
+
+	/** the number of buffered bytes that have not been consumed yet */
+	get available(): number {
+		return this.buf.length - this.pos
+	}
+
+	/** pull the next chunk from the source into the buffer. returns `false` if the source has been exhausted */
+	protected async pull(): Promise<boolean> {
+		if (this.done) return false
+		const { done, value } = await this.chunks.next()
+		if (done) {
+			this.done = true
+			return false
+		}
+		const
+			end = this.buf.length,
+			remaining = end - this.pos,
+			required = remaining + value.length
+		if (end + value.length <= this.storage.length) {
+			// the chunk fits into the spare capacity, which is not referenced by any previously decoded zero-copy value
+			this.storage.set(value, end)
+			this.buf = this.storage.subarray(0, end + value.length)
+			return true
+		}
+		// otherwise the unconsumed bytes are moved into a new storage, dropping the already consumed bytes.
+		// the capacity is doubled with respect to the unconsumed bytes, so that a read spanning many chunks gets copied only a logarithmic number of times.
+		// the old storage is left untouched, since zero-copy values decoded from it may still be in use
+		const storage = new Uint8Array(Math.max(required, remaining * 2))
+		storage.set(this.buf.subarray(this.pos), 0)
+		storage.set(value, remaining)
+		this.storage = storage
+		this.buf = storage.subarray(0, required)
+		this.pos = 0
+		return true
+	}
+
+	/** pull chunks until at least `bytesize` number of unconsumed bytes are buffered. returns `false` if the stream ends before that. <br>
+	 * this keeps pulling past empty chunks, unlike a single {@link pull}, which may succeed without buffering any new bytes
+	*/
+	protected async fill(bytesize: number): Promise<boolean> {
+		while (this.available < bytesize) if (!(await this.pull())) return false
+		return true
+	}
+
+	/** pull chunks until at least `bytesize` number of unconsumed bytes are buffered. an error is thrown if the stream ends before that */
+	async ensure(bytesize: number): Promise<void> {
+		if (!(await this.fill(bytesize))) throw new RangeError(`stream ended after offset ${this.offset + this.available}, but ${bytesize} bytes were requested from offset ${this.offset}`)
+	}
+
+	/** pull all remaining chunks of the stream into the buffer, and return the number of unconsumed bytes */
+	protected async pullAll(): Promise<number> {
+		while (await this.pull()) { }
+		return this.available
+	}
+
+	/** find the relative index (with respect to the unconsumed bytes) of the first byte at or after relative index `start` that satisfies the `predicate`,
+	 * pulling more chunks as needed. returns `-1` if the stream ends before any such byte is found
+	*/
+	protected async findIndex(start: number, predicate: (byte: number) => boolean): Promise<number> {
+		let i = start
+		while (true) {
+			const
+				buf = this.buf,
+				end = buf.length
+			for (let j = this.pos + i; j < end; j++) if (predicate(buf[j])) return j - this.pos
+			i = this.available
+			if (!(await this.pull())) return -1
+		}
+	}
+
+	/** find the relative index of the first null terminator at or after relative index `start`, whose code units are `unit_bytesize` bytes long (see {@link TextEncoding}),
+	 * pulling more chunks as needed. returns `-1` if the stream ends before any null terminator is found
+	*/
+	protected async findNullTerminator(start: number, unit_bytesize: 1 | 2): Promise<number> {
+		let i = start
+		while (true) {
+			i = await this.findIndex(i, (byte) => byte === 0x00)
+			if (i < 0 || unit_bytesize === 1) return i
+			// a 2-byte terminator must be aligned with the code units, and both of its bytes must be zero
+			if ((i - start) % 2 === 1) i++
+			else if (!(await this.fill(i + 2))) return -1
+			else if (this.buf[this.pos + i + 1] === 0x00) return i
+			else i += 2
+		}
+	}
+
+	/** check if the stream has been fully consumed */
+	async atEnd(): Promise<boolean> {
+		return !(await this.fill(1))
+	}
+
+	/** read a `type` of value from the stream, exactly like {@link unpack} would, and consume its bytes */
+	async read<P extends PrimitiveType>(type: P, ...args: any[]): Promise<JSPrimitiveOf<P>> {
+		const
+			bytesize = await this.bytesizeOf(0, type, ...args),
+			[value] = unpack(type, this.buf.subarray(this.pos, this.pos + bytesize), 0, ...args) as Decoded<JSPrimitiveOf<P>>
+		this.consume(bytesize)
+		return value
+	}
+
+	/** read a sequence of items from the stream. this is the streaming equivalent of {@link unpackSeq} */
+	async readSeq(...items: [type: PrimitiveType, ...args: any[]][]): Promise<JSPrimitive[]> {
+		const values: JSPrimitive[] = []
+		for (const [type, ...args] of items) values.push(await this.read(type, ...args))
+		return values
+	}
+
+	/** read exactly `bytesize` number of raw bytes from the stream. the returned array is a copy */
+	async readBytes(bytesize: number): Promise<Uint8Array> {
+		await this.ensure(bytesize)
+		const value = this.buf.slice(this.pos, this.pos + bytesize)
+		this.consume(bytesize)
+		return value
+	}
+
+	/** skip over `bytesize` number of bytes */
+	async skip(bytesize: number): Promise<void> {
+		await this.ensure(bytesize)
+		this.consume(bytesize)
+	}
+
+	/** mark `bytesize` number of buffered bytes as consumed */
+	protected consume(bytesize: number): void {
+		this.pos += bytesize
+		this.offset += bytesize
+	}
+
+	/** compute the number of bytes that a `type` of value occupies when it begins at the relative index `start` of the unconsumed bytes. <br>
+	 * enough chunks are pulled so that the value is entirely buffered once this resolves
+	*/
+	protected async bytesizeOf(start: number, type: PrimitiveType, ...args: any[]): Promise<number> {
+		let bytesize: number
+		switch (type) {
+			case "bool": {
+				bytesize = 1
+				break
+			}
+			case "cstr": {
+				const
+					[encoding = "utf8", missing_terminator = "error"] = args as [TextEncoding?, MissingTerminatorPolicy?],
+					end = await this.findNullTerminator(start, codeUnitBytesizeOf(encoding))
+				if (end >= 0) bytesize = end - start + codeUnitBytesizeOf(encoding)
+				else if (missing_terminator === "end") bytesize = this.available - start
+				else throw new RangeError(`stream ended before the null termination of a "cstr" beginning at offset ${this.offset + start}`)
+				break
+			}
+			case "padstr": {
+				bytesize = args[0]
+				break
+			}
+			case "str":
+			case "bytes": {
+				bytesize = args[0] ?? (await this.pullAll()) - start
+				break
+			}
+			case "bits":
+			case "ibits": {
+				bytesize = Math.ceil((args[0] as number[]).reduce((total, bitsize) => total + bitsize, 0) / 8)
+				break
+			}
+			case "flags": {
+				bytesize = args[0] === undefined ? (await this.pullAll()) - start : Math.ceil(args[0] / 8)
+				break
+			}
+			case "bits[]":
+			case "ibits[]": {
+				const
+					bitsize: number = args[0],
+					array_length: number = args[1] ?? Math.floor(((await this.pullAll()) - start) * 8 / bitsize)
+				bytesize = Math.ceil(array_length * bitsize / 8)
+				break
+			}
+			default: {
+				if (type.endsWith(":s")) bytesize = await this.bytesizeOfTerminated(start, type.slice(0, -2) as PrimitiveArrayType, args[0] ?? 0)
+				else if (type.includes(":")) {
+					const
+						[array_type, header_type] = type.split(":") as [PrimitiveArrayType, NumericType],
+						header_bytesize = await this.bytesizeOf(start, header_type),
+						[length] = unpack(header_type, this.buf, this.pos + start) as Decoded<number>
+					bytesize = header_bytesize + await this.bytesizeOf(start + header_bytesize, array_type, length)
+				} else {
+					const
+						is_array = type.endsWith("[]"),
+						item_type = (is_array ? type.slice(0, -2) : type) as NumericType,
+						array_length: number | undefined = is_array ? args[0] : 1
+					if (item_type[1] === "v") bytesize = await this.bytesizeOfVarints(start, type, array_length)
+					else {
+						const item_bytesize = parseInt(item_type[1])
+						bytesize = array_length === undefined ?
+							(await this.pullAll()) - start :
+							item_bytesize * array_length
+					}
+				}
+			}
+		}
+		await this.ensure(start + bytesize)
+		return bytesize
+	}
+
+	/** compute the bytesize of `array_length` number of consecutive varints. if `array_length` is `undefined`, then all remaining bytes of the stream are included */
+	protected async bytesizeOfVarints(start: number, type: PrimitiveType, array_length?: number): Promise<number> {
+		if (array_length === undefined) return (await this.pullAll()) - start
+		let end = start
+		for (let i = 0; i < array_length; i++) {
+			// the final byte of every varint has its continuation bit cleared
+			end = await this.findIndex(end, (byte) => byte >> 7 === 0)
+			if (end < 0) throw new RangeError(`stream ended in the middle of a "${type}" varint beginning at offset ${this.offset + start}`)
+			end++
+		}
+		return end - start
+	}
+
+	/** compute the bytesize of a sentinel terminated `array_type` (see {@link TerminatedArrayType}), including the sentinel itself */
+	protected async bytesizeOfTerminated(start: number, array_type: PrimitiveArrayType, sentinel: number): Promise<number> {
+		if (!array_type.endsWith("[]")) {
+			const end = await this.findIndex(start, (byte) => byte === sentinel)
+			if (end < 0) throw new RangeError(`stream ended before the sentinel value ${sentinel} of a "${array_type}:s" beginning at offset ${this.offset + start}`)
+			return end - start + 1
+		}
+		const item_type = array_type.slice(0, -2) as NumericType
+		let end = start
+		while (true) {
+			if (!(await this.fill(end + 1))) throw new RangeError(`stream ended before the sentinel value ${sentinel} of a "${array_type}:s" beginning at offset ${this.offset + start}`)
+			const
+				item_bytesize = await this.bytesizeOf(end, item_type),
+				[item] = unpack(item_type, this.buf, this.pos + end)
+			end += item_bytesize
+			// loose equality is intended here, so that `bigint` items can also be matched against the numeric `sentinel`
+			if (item == sentinel) return end - start
+		}
+	}
+}
@@ -1,3 +1,587 @@
 /** utility functions for handling images along with canvas tools
  * @module
-*/
\ No newline at end of file
+*/
+
+import { compress, decompress } from "./compression"
+import { Crc32 } from "./crypto"
+import { Decoded, pack, packSeq, unpack, unpackSeq } from "./eightpack"
+import { NDArray } from "./ndarray"
+import { Rect, positiveRect } from "./struct"
+import { concatBytes, convertTyped, isIdentical, typed_array_constructor_of, typed_array_dtype_of } from "./typedbuffer"
+import { NumberDType, TypedArray, TypedArrayConstructor } from "./typedefs"
+
+/// PNG
+
+/** a single chunk of a PNG file */
+export interface PngChunk {
+	/** the 4 character chunk type, such as `"IHDR"`, `"IDAT"`, or `"tEXt"` */
+	type: string
+	/** the data bytes of the chunk, excluding its length, type, and crc */
+	data: Uint8Array
+}
+
+/** the pixels of a decoded PNG image, or of an image to be encoded as a PNG. <br>
+ * the samples are interleaved in row-major order, with `channels` samples per pixel. <br>
+ * 8-bit (or lower bit depth) images are held in a `Uint8ClampedArray`, while 16-bit images are held in a `Uint16Array`
+*/
+export interface PngImage {
+	width: number
+	height: number
+	/** the number of samples per pixel
+	 * - `1` grayscale (or palette indexes, when encoding with a {@link PngEncodeOptions.palette | palette})
+	 * - `2` grayscale with alpha
+	 * - `3` rgb
+	 * - `4` rgba
+	*/
+	channels: 1 | 2 | 3 | 4
+	/** the number of bits per sample */
+	bitdepth: 8 | 16
+	/** the interleaved pixel samples */
+	data: Uint8ClampedArray | Uint16Array
+}
+
+/** options for {@link encodePng} */
+export interface PngEncodeOptions {
+	/** the row filter to apply before compression. `"adaptive"` picks the filter that minimizes the sum of absolute filtered values of each row. <br>
+	 * **defaults to** `"adaptive"`
+	*/
+	filter: PngFilterType | "adaptive"
+	/** an optional palette of rgb triplets (of at most 256 colors). when provided, the image must be single channel 8-bit, and its samples are interpreted as palette indexes */
+	palette?: Uint8Array | number[]
+	/** the optional alpha value of each palette entry. entries beyond the length of this array are opaque */
+	palette_alpha?: Uint8Array | number[]
+}
+
+/** the PNG row filter types
+ * - `0` none
+ * - `1` sub (difference with the pixel to the left)
+ * - `2` up (difference with the pixel above)
+ * - `3` average (difference with the average of the left and above pixels)
+ * - `4` paeth (difference with the paeth predictor of the left, above, and upper-left pixels)
+*/
+export type PngFilterType = 0 | 1 | 2 | 3 | 4
+
+/** the 8 byte signature that every PNG file begins with */
+const png_signature = Uint8Array.of(0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A)
+
+/** the PNG color types, mapped to their number of samples per pixel */
+const png_color_type_channels: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 }
+
+/** parse all chunks of a PNG file, and verify each of their CRC-32 checksums. an error is thrown if the signature or any checksum is invalid */
+export const decodePngChunks = (buf: Uint8Array): PngChunk[] => {
+	if (!isIdentical(buf.subarray(0, 8), png_signature)) throw new Error("invalid png signature")
+	const chunks: PngChunk[] = []
+	let offset = 8
+	while (offset < buf.length) {
+		const [chunk, bytesize] = decodePngChunk(buf, offset)
+		chunks.push(chunk)
+		offset += bytesize
+		if (chunk.type === "IEND") break
+	}
+	return chunks
+}
+
+/** decode a single PNG chunk that begins at `offset` of `buf`, and verify its CRC-32 checksum */
+export const decodePngChunk = (buf: Uint8Array, offset: number): Decoded<PngChunk> => {
+	const
+		[length] = unpack("u4b", buf, offset) as Decoded<number>,
+		[type] = unpack("str", buf, offset + 4, 4, "latin1") as Decoded<string>,
+		data_offset = offset + 8
+	if (data_offset + length + 4 > buf.length) throw new RangeError(`png chunk "${type}" at offset ${offset} extends beyond the end of the file`)
+	const
+		// the crc covers the chunk type and its data, but not its length
+		[expected_crc] = unpack("u4b", buf, data_offset + length) as Decoded<number>,
+		actual_crc = Crc32(buf.subarray(offset + 4, data_offset + length))
+	if (actual_crc !== expected_crc) throw new Error(`png chunk "${type}" at offset ${offset} has an invalid crc: expected 0x${expected_crc.toString(16)}, but computed 0x${actual_crc.toString(16)}`)
+	return [{ type, data: buf.slice(data_offset, data_offset + length) }, length + 12]
+}
+
+/** encode a single PNG chunk, along with its length and CRC-32 checksum */
+export const encodePngChunk = (chunk: PngChunk): Uint8Array => {
+	const type_and_data = concatBytes(pack("str", chunk.type, 4, "latin1") as Uint8Array, chunk.data)
+	return concatBytes(pack("u4b", chunk.data.length) as Uint8Array, type_and_data, pack("u4b", Crc32(type_and_data)) as Uint8Array)
+}
+
+/** the paeth predictor picks whichever of the `left`, `up`, or `up_left` bytes is closest to `left + up - up_left` */
+const paethPredictor = (left: number, up: number, up_left: number): number => {
+	const
+		p = left + up - up_left,
+		pa = Math.abs(p - left),
+		pb = Math.abs(p - up),
+		pc = Math.abs(p - up_left)
+	return pa <= pb && pa <= pc ? left : pb <= pc ? up : up_left
+}
+
+/** get the predicted value of a byte under a `filter_type`, given its `left`, `up`, and `up_left` neighboring bytes. the filtered byte is the difference from this prediction */
+const filterPredictionOf = (filter_type: PngFilterType, left: number, up: number, up_left: number): number => {
+	switch (filter_type) {
+		case 0: return 0
+		case 1: return left
+		case 2: return up
+		case 3: return (left + up) >> 1
+		case 4: return paethPredictor(left, up, up_left)
+	}
+}
+
+/** reverse the filtering of each row of the `raw` decompressed image data, and return the unfiltered rows (without their leading filter type byte) as a single contiguous array. <br>
+ * `bpp` is the number of bytes per complete pixel (rounded up to `1` for sub-byte bit depths), which is the distance to the "left" byte of the filters
+*/
+const unfilterRows = (raw: Uint8Array, height: number, stride: number, bpp: number): Uint8Array => {
+	const rows = new Uint8Array(height * stride)
+	if (raw.length < height * (stride + 1)) throw new RangeError(`png image data is too short: expected ${height * (stride + 1)} bytes, but got ${raw.length}`)
+	for (let y = 0; y < height; y++) {
+		const
+			filter_type = raw[y * (stride + 1)] as PngFilterType,
+			line = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1)),
+			row = rows.subarray(y * stride, (y + 1) * stride),
+			prev = y > 0 ? rows.subarray((y - 1) * stride, y * stride) : new Uint8Array(stride)
+		if (filter_type > 4) throw new Error(`invalid png filter type ${filter_type} in row ${y}`)
+		for (let i = 0; i < stride; i++) row[i] = line[i] + filterPredictionOf(filter_type, i >= bpp ? row[i - bpp] : 0, prev[i], i >= bpp ? prev[i - bpp] : 0)
+	}
+	return rows
+}
+
+/** apply a `filter_type` to a single `row`, given the previous (unfiltered) row `prev`, and write the filtered bytes into `out` */
+const filterRow = (filter_type: PngFilterType, row: Uint8Array, prev: Uint8Array, bpp: number, out: Uint8Array): void => {
+	for (let i = 0; i < row.length; i++) out[i] = row[i] - filterPredictionOf(filter_type, i >= bpp ? row[i - bpp] : 0, prev[i], i >= bpp ? prev[i - bpp] : 0)
+}
+
+/** decode a PNG file into its pixels. <br>
+ * all standard color types are supported: grayscale (with or without alpha), rgb, rgba, and palette.
+ * - palette images are expanded into rgb pixels, or into rgba pixels if they have a `tRNS` transparency chunk
+ * - grayscale images with a bit depth lower than 8 are scaled up to the full 8-bit range
+ * - 16-bit images are decoded into a `Uint16Array` (in native endianness), while all others are decoded into a `Uint8ClampedArray`
+ *
+ * interlaced (Adam7) images are not supported. the zlib stream is decompressed via {@link decompress}, which verifies its Adler-32 checksum.
+ * @example
+ * ```ts
+ * const { width, height, channels, data } = await decodePng(new Uint8Array(await readFile("./icon.png")))
+ * ```
+*/
+export const decodePng = async (buf: Uint8Array): Promise<PngImage> => {
+	const chunks = decodePngChunks(buf)
+	if (chunks[0]?.type !== "IHDR") throw new Error("png file does not begin with an IHDR chunk")
+	const [[width, height, bitdepth, color_type, compression_method, filter_method, interlace_method]] = unpackSeq(chunks[0].data, 0, ["u4b"], ["u4b"], ["u1"], ["u1"], ["u1"], ["u1"], ["u1"]) as Decoded<number[]>
+	const file_channels = png_color_type_channels[color_type]
+	if (file_channels === undefined) throw new Error(`invalid png color type ${color_type}`)
+	if (![1, 2, 4, 8, 16].includes(bitdepth) || (color_type === 3 && bitdepth > 8) || (color_type !== 0 && color_type !== 3 && bitdepth < 8)) throw new Error(`invalid png bit depth ${bitdepth} for color type ${color_type}`)
+	if (compression_method !== 0 || filter_method !== 0) throw new Error("unsupported png compression or filter method")
+	if (interlace_method !== 0) throw new Error("interlaced png images are not supported")
+	const
+		palette = chunks.find((chunk) => chunk.type === "PLTE")?.data,
+		transparency = chunks.find((chunk) => chunk.type === "tRNS")?.data,
+		idat = concatBytes(...chunks.filter((chunk) => chunk.type === "IDAT").map((chunk) => chunk.data)),
+		bits_per_pixel = file_channels * bitdepth,
+		stride = Math.ceil(width * bits_per_pixel / 8),
+		rows = unfilterRows(await decompress(idat, "deflate"), height, stride, Math.max(bits_per_pixel >> 3, 1))
+	if (bitdepth === 16) {
+		// 16-bit samples are stored in big endian
+		const data = new Uint16Array(width * height * file_channels)
+		for (let y = 0, i = 0; y < height; y++) {
+			const row_offset = y * stride
+			for (let x = 0; x < width * file_channels; x++) data[i++] = (rows[row_offset + x * 2] << 8) | rows[row_offset + x * 2 + 1]
+		}
+		return { width, height, channels: file_channels as PngImage["channels"], bitdepth: 16, data }
+	}
+	// the samples of each row are first unpacked into one byte per sample
+	const
+		samples = new Uint8ClampedArray(width * height * file_channels),
+		sample_mask = (1 << bitdepth) - 1,
+		// grayscale samples are scaled up to fill the 8-bit range, while palette indexes are left as is
+		scale = color_type === 3 ? 1 : 255 / sample_mask
+	for (let y = 0, i = 0; y < height; y++) {
+		const row_offset = y * stride
+		if (bitdepth === 8) {
+			samples.set(rows.subarray(row_offset, row_offset + width * file_channels), i)
+			i += width * file_channels
+			continue
+		}
+		for (let x = 0; x < width; x++) {
+			const
+				bitpos = x * bitdepth,
+				byte = rows[row_offset + (bitpos >> 3)]
+			samples[i++] = ((byte >> (8 - bitdepth - (bitpos & 7))) & sample_mask) * scale
+		}
+	}
+	if (color_type !== 3) return { width, height, channels: file_channels as PngImage["channels"], bitdepth: 8, data: samples }
+	if (palette === undefined) throw new Error("palette png image is missing its PLTE chunk")
+	const
+		channels = transparency === undefined ? 3 : 4,
+		data = new Uint8ClampedArray(width * height * channels),
+		palette_length = palette.length / 3
+	for (let i = 0; i < samples.length; i++) {
+		const index = samples[i]
+		if (index >= palette_length) throw new Error(`png palette index ${index} is out of range of the ${palette_length} palette entries`)
+		data.set(palette.subarray(index * 3, index * 3 + 3), i * channels)
+		if (channels === 4) data[i * 4 + 3] = transparency![index] ?? 255
+	}
+	return { width, height, channels, bitdepth: 8, data }
+}
+
+/** encode pixels into a PNG file. <br>
+ * the color type is inferred from the number of `channels` (or is a palette, when a {@link PngEncodeOptions.palette | palette} is provided),
+ * and the zlib stream is compressed via {@link compress} (which stores the data uncompressed when no native compression is available).
+ * @example
+ * ```ts
+ * const png_bytes = await encodePng({ width: 2, height: 1, channels: 3, bitdepth: 8, data: Uint8ClampedArray.of(255, 0, 0, 0, 0, 255) })
+ * ```
+*/
+export const encodePng = async (image: PngImage, options: Partial<PngEncodeOptions> = {}): Promise<Uint8Array> => {
+	const
+		{ width, height, channels, bitdepth, data } = image,
+		{ filter = "adaptive", palette, palette_alpha } = options,
+		color_type = palette !== undefined ? 3 : { 1: 0, 2: 4, 3: 2, 4: 6 }[channels],
+		bytesize = bitdepth / 8,
+		bpp = channels * bytesize,
+		stride = width * bpp,
+		chunks: PngChunk[] = []
+	if (data.length !== width * height * channels) throw new RangeError(`expected ${width * height * channels} samples for a ${width}x${height} image with ${channels} channels, but got ${data.length}`)
+	if (palette !== undefined && (channels !== 1 || bitdepth !== 8)) throw new RangeError("palette png images must be single channel and 8-bit")
+	chunks.push({ type: "IHDR", data: packSeq(["u4b", width], ["u4b", height], ["u1", bitdepth], ["u1", color_type], ["u1", 0], ["u1", 0], ["u1", 0]) })
+	if (palette !== undefined) chunks.push({ type: "PLTE", data: Uint8Array.from(palette) })
+	if (palette_alpha !== undefined) chunks.push({ type: "tRNS", data: Uint8Array.from(palette_alpha) })
+	// the samples are laid out as big endian bytes, one row at a time, and each row is prefixed with its filter type
+	const
+		rows = new Uint8Array(height * stride),
+		raw = new Uint8Array(height * (stride + 1)),
+		candidate = new Uint8Array(stride)
+	if (bitdepth === 16) for (let i = 0; i < data.length; i++) {
+		rows[i * 2] = data[i] >> 8
+		rows[i * 2 + 1] = data[i] & 0xFF
+	}
+	else rows.set(data)
+	for (let y = 0; y < height; y++) {
+		const
+			row = rows.subarray(y * stride, (y + 1) * stride),
+			prev = y > 0 ? rows.subarray((y - 1) * stride, y * stride) : new Uint8Array(stride),
+			out = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1))
+		let best_filter: PngFilterType = filter === "adaptive" ? 0 : filter
+		if (filter === "adaptive") {
+			let best_score = Infinity
+			for (const filter_type of [0, 1, 2, 3, 4] as PngFilterType[]) {
+				filterRow(filter_type, row, prev, bpp, candidate)
+				// the filtered bytes are scored as signed values, since small negative differences compress just as well as small positive ones
+				let score = 0
+				for (let i = 0; i < stride; i++) score += candidate[i] < 128 ? candidate[i] : 256 - candidate[i]
+				if (score < best_score) {
+					best_score = score
+					best_filter = filter_type
+				}
+			}
+		}
+		raw[y * (stride + 1)] = best_filter
+		filterRow(best_filter, row, prev, bpp, out)
+	}
+	chunks.push({ type: "IDAT", data: await compress(raw, "deflate") })
+	chunks.push({ type: "IEND", data: new Uint8Array(0) })
+	return concatBytes(png_signature, ...chunks.map(encodePngChunk))
+}
+
+/// IMAGE BUFFER
+
+/** the layout of the interleaved channels of each pixel of an {@link ImageBuffer}
+ * - `"gray"` a single luminance sample
+ * - `"gray_alpha"` luminance followed by alpha
+ * - `"rgb"` red, green, and blue
+ * - `"rgba"` red, green, blue, and straight (non-premultiplied) alpha. this is the layout of {@link ImageData}
+ * - `"rgba_premultiplied"` red, green, blue, and alpha, where the color samples have already been multiplied by the alpha (as expected by canvas compositing and webgl blending)
+*/
+export type ChannelLayout = "gray" | "gray_alpha" | "rgb" | "rgba" | "rgba_premultiplied"
+
+/** the resampling method used by {@link ImageBuffer.resize}
+ * - `"nearest"` pick the source pixel closest to the center of each destination pixel
+ * - `"bilinear"` linearly interpolate between the four source pixels surrounding the center of each destination pixel
+*/
+export type ResampleMethod = "nearest" | "bilinear"
+
+/** the number of samples per pixel of each {@link ChannelLayout} */
+const channel_layout_channels: Record<ChannelLayout, 1 | 2 | 3 | 4> = { gray: 1, gray_alpha: 2, rgb: 3, rgba: 4, rgba_premultiplied: 4 }
+
+/** the {@link ChannelLayout} of a {@link PngImage}, indexed by its number of `channels - 1` */
+const png_channel_layouts: ChannelLayout[] = ["gray", "gray_alpha", "rgb", "rgba"]
+
+/** get the sample value that represents full intensity (and full opacity) in a `dtype`. floating point dtypes are normalized to `1` */
+const sampleMaxOf = (dtype: NumberDType): number => {
+	if (dtype[0] === "f") return 1
+	const bits = parseInt(dtype[1]) * 8
+	return dtype[0] === "u" ? 2 ** bits - 1 : 2 ** (bits - 1) - 1
+}
+
+/** an image held as interleaved pixel samples in row-major order, with any {@link NumberDType} as its backing {@link TypedArray}. <br>
+ * an `"rgba"` image of dtype `"u1c"` is structurally compatible with {@link ImageData}, and can be exchanged with it without copying. <br>
+ * all transformations return a new image, and leave the original untouched.
+ * @example
+ * ```ts
+ * const image = ImageBuffer.fromImageData(ctx.getImageData(0, 0, canvas.width, canvas.height))
+ * const thumbnail = image
+ * 	.crop({ x: 100, y: 50, width: -80, height: 80 })
+ * 	.rotate(1)
+ * 	.resize(32, 32, "bilinear")
+ * 	.convert("gray")
+ * ```
+ * @typeParam DType the {@link NumberDType} of the underlying `data`
+*/
+export class ImageBuffer<DType extends NumberDType = "u1c"> {
+	/** the interleaved pixel samples, in row-major order */
+	readonly data: TypedArray<DType>
+	/** the numeric type of the samples */
+	readonly dtype: DType
+	readonly width: number
+	readonly height: number
+	/** the layout of the channels of each pixel */
+	readonly layout: ChannelLayout
+	/** the number of samples per pixel */
+	readonly channels: 1 | 2 | 3 | 4
+
+	constructor(data: TypedArray<DType>, width: number, height: number, layout: ChannelLayout = "rgba") {
+		const channels = channel_layout_channels[layout]
+		if (data.length !== width * height * channels) throw new RangeError(`a ${width}x${height} "${layout}" image requires ${width * height * channels} samples, but ${data.length} were provided`)
+		this.data = data
+		this.dtype = typed_array_dtype_of(data)
+		this.width = width
+		this.height = height
+		this.layout = layout
+		this.channels = channels
+	}
+
+	/** create a new image of the given dimensions, `layout`, and `dtype`, filled with zeros (ie transparent black) */
+	static create<DType extends NumberDType = "u1c">(width: number, height: number, layout: ChannelLayout = "rgba", dtype: DType = "u1c" as DType): ImageBuffer<DType> {
+		const constructor = typed_array_constructor_of(dtype as NumberDType) as TypedArrayConstructor<DType>
+		return new ImageBuffer(new constructor(width * height * channel_layout_channels[layout]) as TypedArray<DType>, width, height, layout)
+	}
+
+	/** wrap the pixels of an {@link ImageData} (or any object with the same shape) as an `"rgba"` image. the pixel data is shared, not copied */
+	static fromImageData(image_data: Pick<ImageData, "width" | "height" | "data">): ImageBuffer<"u1c"> {
+		return new ImageBuffer(image_data.data as TypedArray<"u1c">, image_data.width, image_data.height, "rgba")
+	}
+
+	/** wrap the pixels of a decoded {@link PngImage} (see {@link decodePng}). 16-bit images get the dtype `"u2"`, while all others get `"u1c"`. the pixel data is shared, not copied */
+	static fromPng(image: PngImage): ImageBuffer<"u1c" | "u2"> {
+		return new ImageBuffer(image.data as TypedArray<"u1c" | "u2">, image.width, image.height, png_channel_layouts[image.channels - 1])
+	}
+
+	/** the sample value that represents full intensity and full opacity. this is the maximum of unsigned integer dtypes, and `1` for floating point dtypes */
+	get maxValue(): number {
+		return sampleMaxOf(this.dtype)
+	}
+
+	/** get a zero-copy {@link NDArray} view of the samples, with the shape `[height, width, channels]` */
+	toNDArray(): NDArray<DType> {
+		return new NDArray(this.data, [this.height, this.width, this.channels])
+	}
+
+	/** convert this image into an {@link ImageData}, which can then be drawn onto a canvas via `ctx.putImageData`. <br>
+	 * the pixel data is shared when this image is already an `"rgba"` image of dtype `"u1c"`, otherwise it is converted into one first
+	*/
+	toImageData(): ImageData {
+		const
+			image = this.layout === "rgba" ? this : this.convert("rgba"),
+			data = image.dtype === "u1c" ? image.data : image.astype("u1c").data
+		return new ImageData(data as Uint8ClampedArray, this.width, this.height)
+	}
+
+	/** convert this image into a {@link PngImage}, ready to be encoded via {@link encodePng}. <br>
+	 * images of dtype `"u2"` are kept as 16-bit, while all other dtypes are converted to 8-bit. premultiplied images are converted to straight alpha
+	*/
+	toPng(): PngImage {
+		const
+			png_dtype = this.dtype === "u2" ? "u2" : "u1c",
+			image = this.layout === "rgba_premultiplied" ? this.convert("rgba") : this,
+			data = image.dtype === png_dtype ? image.data : image.astype(png_dtype).data
+		return {
+			width: this.width,
+			height: this.height,
+			channels: image.channels,
+			bitdepth: png_dtype === "u2" ? 16 : 8,
+			data: data as Uint8ClampedArray | Uint16Array,
+		}
+	}
+
+	/** get a copy of this image, with its own data
+	 * @copy
+	*/
+	copy(): ImageBuffer<DType> {
+		return new ImageBuffer(this.data.slice() as TypedArray<DType>, this.width, this.height, this.layout)
+	}
+
+	/** convert the samples of this image into a different `dtype`, rescaling them so that the {@link maxValue} of one maps to the other (such as `u1` `255` to `f4` `1.0`)
+	 * @copy
+	*/
+	astype<T extends NumberDType>(dtype: T): ImageBuffer<T> {
+		return new ImageBuffer(convertTyped(this.data, dtype, { normalize: true }), this.width, this.height, this.layout)
+	}
+
+	/** convert this image into a different channel `layout`. <br>
+	 * - color is reduced to gray using the rec. 601 luma weights `0.299 * r + 0.587 * g + 0.114 * b`
+	 * - gray is expanded to color by repeating it over all three color channels
+	 * - a missing alpha channel is filled with {@link maxValue} (fully opaque), and a dropped alpha channel leaves the color samples as they are
+	 * - premultiplied color samples are divided by their alpha before being converted into any other layout. fully transparent pixels become black
+	 * @copy
+	*/
+	convert(layout: ChannelLayout): ImageBuffer<DType> {
+		if (layout === this.layout) return this.copy()
+		const
+			{ width, height, dtype, data, channels } = this,
+			out = ImageBuffer.create(width, height, layout, dtype),
+			out_data = out.data,
+			out_channels = out.channels,
+			max = this.maxValue,
+			round = dtype[0] === "f" ? (x: number) => x : Math.round,
+			has_alpha = channels === 2 || channels === 4,
+			out_has_alpha = out_channels === 2 || out_channels === 4,
+			premultiplied = this.layout === "rgba_premultiplied",
+			out_premultiplied = layout === "rgba_premultiplied",
+			len = width * height
+		for (let p = 0, i = 0, j = 0; p < len; p++, i += channels, j += out_channels) {
+			let
+				r = data[i],
+				g = channels < 3 ? r : data[i + 1],
+				b = channels < 3 ? r : data[i + 2]
+			const a = has_alpha ? data[i + channels - 1] : max
+			if (premultiplied) {
+				const unscale = a > 0 ? max / a : 0
+				r = Math.min(r * unscale, max)
+				g = Math.min(g * unscale, max)
+				b = Math.min(b * unscale, max)
+			}
+			if (out_premultiplied) {
+				const scale = a / max
+				r *= scale
+				g *= scale
+				b *= scale
+			}
+			if (out_channels < 3) out_data[j] = round(0.299 * r + 0.587 * g + 0.114 * b)
+			else {
+				out_data[j] = round(r)
+				out_data[j + 1] = round(g)
+				out_data[j + 2] = round(b)
+			}
+			if (out_has_alpha) out_data[j + out_channels - 1] = a
+		}
+		return out
+	}
+
+	/** extract the pixels within a rectangular region. <br>
+	 * the `rect` may have negative dimensions (it gets normalized via {@link positiveRect}), and non-integer edges get expanded outwards to whole pixels. <br>
+	 * the region is clipped to the bounds of this image, so the resulting image may be smaller than the `rect`, or even empty
+	 * @copy
+	*/
+	crop(rect: Rect): ImageBuffer<DType> {
+		const
+			{ x, y, width, height } = positiveRect(rect),
+			x0 = Math.min(Math.max(Math.floor(x), 0), this.width),
+			y0 = Math.min(Math.max(Math.floor(y), 0), this.height),
+			x1 = Math.max(Math.min(Math.ceil(x + width), this.width), x0),
+			y1 = Math.max(Math.min(Math.ceil(y + height), this.height), y0)
+		return this.fromView(this.toNDArray().slice([y0, y1], [x0, x1]))
+	}
+
+	/** mirror the image along its vertical axis, so that the left and right sides are swapped
+	 * @copy
+	*/
+	flipHorizontal(): ImageBuffer<DType> {
+		return this.fromView(this.toNDArray().slice(undefined, [undefined, undefined, -1]))
+	}
+
+	/** mirror the image along its horizontal axis, so that the top and bottom sides are swapped
+	 * @copy
+	*/
+	flipVertical(): ImageBuffer<DType> {
+		return this.fromView(this.toNDArray().slice([undefined, undefined, -1]))
+	}
+
+	/** rotate the image clockwise by a number of quarter `turns`. negative `turns` rotate counter-clockwise. <br>
+	 * the width and height of the image are swapped for odd `turns`
+	 * @example
+	 * ```ts
+	 * const image = new ImageBuffer(Uint8ClampedArray.of(1, 2, 3, 4, 5, 6), 3, 2, "gray")
+	 * image.rotate(1).data // Uint8ClampedArray [4, 1, 5, 2, 6, 3] (2x3)
+	 * image.rotate(-1).data // Uint8ClampedArray [3, 6, 2, 5, 1, 4] (2x3)
+	 * ```
+	 * @copy
+	*/
+	rotate(turns: number): ImageBuffer<DType> {
+		if (!Number.isInteger(turns)) throw new RangeError(`rotations must be a whole number of quarter turns, but ${turns} was provided`)
+		const view = this.toNDArray()
+		switch (((turns % 4) + 4) % 4) {
+			case 1: return this.fromView(view.transpose(1, 0, 2).slice(undefined, [undefined, undefined, -1]))
+			case 2: return this.fromView(view.slice([undefined, undefined, -1], [undefined, undefined, -1]))
+			case 3: return this.fromView(view.transpose(1, 0, 2).slice([undefined, undefined, -1]))
+			default: return this.copy()
+		}
+	}
+
+	/** resample the image to a new `width` and `height`, using the {@link ResampleMethod} `method`. <br>
+	 * sample positions are aligned to pixel centers, so that the image does not drift when scaled up or down. <br>
+	 * bilinear interpolation only looks at the four nearest source pixels, so shrinking by more than half skips over some pixels and may alias.
+	 * convert images with alpha to `"rgba_premultiplied"` before resizing them, so that transparent pixels do not bleed their color into their neighbors
+	 * @copy
+	*/
+	resize(width: number, height: number, method: ResampleMethod = "bilinear"): ImageBuffer<DType> {
+		if (!(width >= 0 && height >= 0 && Number.isInteger(width) && Number.isInteger(height))) throw new RangeError(`invalid resize dimensions ${width}x${height}`)
+		const
+			{ width: src_width, height: src_height, channels, data, dtype } = this,
+			out = ImageBuffer.create(width, height, this.layout, dtype),
+			out_data = out.data,
+			scale_x = src_width / width,
+			scale_y = src_height / height,
+			row_stride = src_width * channels
+		if (width * height === 0) return out
+		if (src_width * src_height === 0) throw new RangeError("cannot resize an empty image into a non-empty one")
+		if (method === "nearest") {
+			const xs = Int32Array.from({ length: width }, (_, x) => Math.min(Math.floor((x + 0.5) * scale_x), src_width - 1) * channels)
+			for (let y = 0, j = 0; y < height; y++) {
+				const row = Math.min(Math.floor((y + 0.5) * scale_y), src_height - 1) * row_stride
+				for (let x = 0; x < width; x++) {
+					const i = row + xs[x]
+					for (let c = 0; c < channels; c++) out_data[j++] = data[i + c]
+				}
+			}
+			return out
+		}
+		const
+			round = dtype[0] === "f" ? (x: number) => x : Math.round,
+			[x0s, x1s, fxs] = bilinearWeightsOf(width, src_width),
+			[y0s, y1s, fys] = bilinearWeightsOf(height, src_height)
+		for (let y = 0, j = 0; y < height; y++) {
+			const
+				row0 = y0s[y] * row_stride,
+				row1 = y1s[y] * row_stride,
+				fy = fys[y]
+			for (let x = 0; x < width; x++) {
+				const
+					x0 = x0s[x] * channels,
+					x1 = x1s[x] * channels,
+					fx = fxs[x]
+				for (let c = 0; c < channels; c++) {
+					const
+						top = data[row0 + x0 + c] * (1 - fx) + data[row0 + x1 + c] * fx,
+						bottom = data[row1 + x0 + c] * (1 - fx) + data[row1 + x1 + c] * fx
+					out_data[j++] = round(top * (1 - fy) + bottom * fy)
+				}
+			}
+		}
+		return out
+	}
+
+	/** create a new image, with the same layout as this one, out of an `[height, width, channels]` shaped view */
+	private fromView(view: NDArray<DType>): ImageBuffer<DType> {
+		return new ImageBuffer(view.flatten(), view.shape[1], view.shape[0], this.layout)
+	}
+}
+
+/** compute the two neighboring source indexes, and the interpolation weight of the second one, for each of the `dst_length` pixels along an axis that gets resampled from `src_length` pixels */
+const bilinearWeightsOf = (dst_length: number, src_length: number): [i0: Int32Array, i1: Int32Array, weight: Float64Array] => {
+	const
+		scale = src_length / dst_length,
+		i0 = new Int32Array(dst_length),
+		i1 = new Int32Array(dst_length),
+		weight = new Float64Array(dst_length)
+	for (let i = 0; i < dst_length; i++) {
+		const position = Math.min(Math.max((i + 0.5) * scale - 0.5, 0), src_length - 1)
+		i0[i] = Math.floor(position)
+		i1[i] = Math.min(i0[i] + 1, src_length - 1)
+		weight[i] = position - i0[i]
+	}
+	return [i0, i1, weight]
+}
@@ -0,0 +1,270 @@
+/** an N-dimensional strided array view over {@link TypedArray}s, for multi-channel and interleaved data (such as images and sensor recordings). <br>
+ * slicing, transposing, and (contiguous) reshaping never copy the underlying data, they only create a new view with a different shape, strides, and offset.
+ * @example
+ * ```ts
+ * // an interleaved rgba image of 640x480 pixels
+ * const img = new NDArray(rgba_pixels, [480, 640, 4])
+ * const red_channel = img.slice(undefined, undefined, 0) // shape: [480, 640], strides: [2560, 4]
+ * const top_left_quadrant = img.slice([0, 240], [0, 320]) // shape: [240, 320, 4]
+ * const flipped_vertically = img.slice([undefined, undefined, -1]) // shape: [480, 640, 4], strides: [-2560, 4, 1]
+ * const channel_planes = img.transpose(2, 0, 1) // shape: [4, 480, 640]
+ * ```
+ * @module
+*/
+
+import { typed_array_constructor_of, typed_array_dtype_of } from "./typedbuffer"
+import { NumberDType, TypedArray, TypedArrayConstructor } from "./typedefs"
+
+/** a slicing specification for a single axis of an {@link NDArray}
+ * - `undefined` selects the entire axis
+ * - a `number` selects a single index along the axis, and drops that axis from the resulting view. negative indexes count from the end
+ * - a `[start, end, step]` tuple selects a range along the axis, just like python's slices. any of its entries can be `undefined`, and negative `start` and `end` count from the end
+*/
+export type NDSlice = undefined | number | [start?: number, end?: number, step?: number]
+
+/** compute the row-major (c-order) strides of a contiguous array with the given `shape` */
+const contiguousStridesOf = (shape: number[]): number[] => {
+	const strides: number[] = Array(shape.length)
+	let stride = 1
+	for (let axis = shape.length - 1; axis >= 0; axis--) {
+		strides[axis] = stride
+		stride *= shape[axis]
+	}
+	return strides
+}
+
+/** compute the total number of elements in an array with the given `shape` */
+const sizeOf = (shape: number[]): number => shape.reduce((size, dim) => size * dim, 1)
+
+/** an N-dimensional view over a {@link TypedArray} `data`, described by its `shape`, `strides` (in number of elements), and `offset`. <br>
+ * the element at the multi-dimensional index `[i0, i1, ...]` is located at `data[offset + i0 * strides[0] + i1 * strides[1] + ...]`. <br>
+ * when `strides` are not provided, they are computed for a contiguous row-major (c-order) layout of the given `shape`
+ * @typeParam DType the {@link NumberDType} of the underlying `data`
+*/
+export class NDArray<DType extends NumberDType = NumberDType> {
+	/** the underlying typed array, which may be shared with other views */
+	readonly data: TypedArray<DType>
+	/** the numeric type of the elements */
+	readonly dtype: DType
+	/** the length of each axis */
+	readonly shape: number[]
+	/** the number of elements to jump in {@link data} when advancing by one along each axis. strides may be negative */
+	readonly strides: number[]
+	/** the index in {@link data} of the first element (ie the element at index `[0, 0, ...]`) */
+	readonly offset: number
+
+	constructor(data: TypedArray<DType>, shape: number[] = [data.length], strides?: number[], offset: number = 0) {
+		this.data = data
+		this.dtype = typed_array_dtype_of(data)
+		this.shape = shape
+		this.strides = strides ?? contiguousStridesOf(shape)
+		this.offset = offset
+		if (this.strides.length !== shape.length) throw new RangeError(`the number of strides (${this.strides.length}) must match the number of dimensions (${shape.length})`)
+	}
+
+	/** create a new zero filled contiguous array of the given `dtype` and `shape` */
+	static zeros<DType extends NumberDType>(dtype: DType, shape: number[]): NDArray<DType> {
+		const constructor = typed_array_constructor_of(dtype as NumberDType) as TypedArrayConstructor<DType>
+		return new NDArray(new constructor(sizeOf(shape)) as TypedArray<DType>, [...shape])
+	}
+
+	/** the number of dimensions (axes) */
+	get ndim(): number {
+		return this.shape.length
+	}
+
+	/** the total number of elements in this view */
+	get size(): number {
+		return sizeOf(this.shape)
+	}
+
+	/** check if the elements of this view are laid out contiguously in row-major order within {@link data} */
+	isContiguous(): boolean {
+		const { shape, strides } = this
+		let stride = 1
+		for (let axis = shape.length - 1; axis >= 0; axis--) {
+			// the stride of an axis of length 1 is irrelevant, since it is never advanced along
+			if (shape[axis] !== 1 && strides[axis] !== stride) return false
+			stride *= shape[axis]
+		}
+		return true
+	}
+
+	/** get the index in {@link data} of the element at the multi-dimensional index `indices`. no bounds checking is performed */
+	indexOf(...indices: number[]): number {
+		const strides = this.strides
+		let index = this.offset
+		for (let axis = 0; axis < indices.length; axis++) index += indices[axis] * strides[axis]
+		return index
+	}
+
+	/** get the value of the element at the multi-dimensional index `indices`. no bounds checking is performed */
+	get(...indices: number[]): number {
+		return this.data[this.indexOf(...indices)]
+	}
+
+	/** set the `value` of the element at the multi-dimensional index `indices`. no bounds checking is performed */
+	set(value: number, ...indices: number[]): this {
+		this.data[this.indexOf(...indices)] = value
+		return this
+	}
+
+	/** create a zero-copy view of a sub-region of this array, by providing an {@link NDSlice} for each axis. <br>
+	 * axes without a corresponding slice specification are selected entirely, and axes sliced with a single `number` are dropped from the view.
+	 * @example
+	 * ```ts
+	 * const arr = new NDArray(Float32Array.from({ length: 12 }, (_, i) => i), [3, 4])
+	 * arr.slice(1).flatten() // Float32Array [4, 5, 6, 7]
+	 * arr.slice(undefined, [undefined, undefined, 2]).flatten() // Float32Array [0, 2, 4, 6, 8, 10]
+	 * arr.slice([-1, undefined, -1], -1).flatten() // Float32Array [11, 7, 3]
+	 * ```
+	*/
+	slice(...ranges: NDSlice[]): NDArray<DType> {
+		const
+			shape: number[] = [],
+			strides: number[] = []
+		let offset = this.offset
+		for (let axis = 0; axis < this.ndim; axis++) {
+			const
+				range = ranges[axis],
+				dim = this.shape[axis],
+				stride = this.strides[axis]
+			if (range === undefined) {
+				shape.push(dim)
+				strides.push(stride)
+			} else if (typeof range === "number") {
+				const index = range < 0 ? range + dim : range
+				if (index < 0 || index >= dim) throw new RangeError(`index ${range} is out of bounds for axis ${axis} of length ${dim}`)
+				offset += index * stride
+			} else {
+				const [start, length, step] = resolveSlice(range, dim)
+				if (length > 0) offset += start * stride
+				shape.push(length)
+				strides.push(stride * step)
+			}
+		}
+		return new NDArray(this.data, shape, strides, offset)
+	}
+
+	/** create a zero-copy view with its axes permuted according to `axes`. the axes are reversed when none are provided
+	 * @example
+	 * ```ts
+	 * const arr = NDArray.zeros("u1", [2, 3, 4])
+	 * arr.transpose().shape // [4, 3, 2]
+	 * arr.transpose(2, 0, 1).shape // [4, 2, 3]
+	 * ```
+	*/
+	transpose(...axes: number[]): NDArray<DType> {
+		if (axes.length === 0) axes = this.shape.map((_, axis) => this.ndim - 1 - axis)
+		if (axes.length !== this.ndim || new Set(axes).size !== this.ndim || axes.some((axis) => !(axis >= 0 && axis < this.ndim))) {
+			throw new RangeError(`the axes [${axes}] are not a permutation of the ${this.ndim} axes of the array`)
+		}
+		return new NDArray(this.data, axes.map((axis) => this.shape[axis]), axes.map((axis) => this.strides[axis]), this.offset)
+	}
+
+	/** create a view with a new `shape`, but with the same elements in row-major order. a single axis may be given the length `-1`, in which case it gets inferred. <br>
+	 * the reshaped view is zero-copy when this array is contiguous (see {@link isContiguous}). otherwise, the elements are first copied into a new contiguous array
+	*/
+	reshape(...shape: number[]): NDArray<DType> {
+		const
+			size = this.size,
+			inferred_axis = shape.indexOf(-1)
+		if (inferred_axis >= 0) {
+			shape = [...shape]
+			shape[inferred_axis] = size / -sizeOf(shape)
+		}
+		if (sizeOf(shape) !== size || !Number.isInteger(shape[inferred_axis] ?? 0)) throw new RangeError(`cannot reshape an array of size ${size} into the shape [${shape}]`)
+		const source: NDArray<DType> = this.isContiguous() ? this : this.copy()
+		return new NDArray(source.data, shape, undefined, source.offset)
+	}
+
+	/** iterate over the indices in {@link data} of all elements of this view, in row-major order */
+	*dataIndices(): IterableIterator<number> {
+		const
+			{ shape, strides, ndim } = this,
+			size = this.size,
+			counter: number[] = Array(ndim).fill(0)
+		let index = this.offset
+		for (let i = 0; i < size; i++) {
+			yield index
+			// increment the multi-dimensional counter like an odometer, starting from the last axis
+			for (let axis = ndim - 1; axis >= 0; axis--) {
+				index += strides[axis]
+				if (++counter[axis] < shape[axis]) break
+				index -= strides[axis] * shape[axis]
+				counter[axis] = 0
+			}
+		}
+	}
+
+	/** iterate over the multi-dimensional indices of all elements of this view, in row-major order */
+	*indices(): IterableIterator<number[]> {
+		const
+			{ shape, ndim } = this,
+			size = this.size,
+			counter: number[] = Array(ndim).fill(0)
+		for (let i = 0; i < size; i++) {
+			yield [...counter]
+			for (let axis = ndim - 1; axis >= 0; axis--) {
+				if (++counter[axis] < shape[axis]) break
+				counter[axis] = 0
+			}
+		}
+	}
+
+	/** iterate over the values of all elements of this view, in row-major order */
+	*[Symbol.iterator](): IterableIterator<number> {
+		const data = this.data
+		for (const index of this.dataIndices()) yield data[index]
+	}
+
+	/** get a copy of the elements of this view as a flat typed array, in row-major order
+	 * @copy
+	*/
+	flatten(): TypedArray<DType> {
+		if (this.isContiguous()) return this.data.slice(this.offset, this.offset + this.size) as TypedArray<DType>
+		const
+			constructor = typed_array_constructor_of(this.dtype as NumberDType) as TypedArrayConstructor<DType>,
+			flat = new constructor(this.size) as TypedArray<DType>,
+			data = this.data
+		let i = 0
+		for (const index of this.dataIndices()) flat[i++] = data[index]
+		return flat
+	}
+
+	/** get a contiguous copy of this view, with its own data
+	 * @copy
+	*/
+	copy(): NDArray<DType> {
+		return new NDArray(this.flatten(), [...this.shape])
+	}
+
+	/** overwrite the elements of this view with the `values` of a flat array (in row-major order), or with the elements of another array view of the same size
+	 * @inplace
+	*/
+	assign(values: ArrayLike<number> | NDArray): this {
+		const data = this.data
+		if (values instanceof NDArray) values = values.flatten()
+		if (values.length !== this.size) throw new RangeError(`cannot assign ${values.length} values to an array view of size ${this.size}`)
+		let i = 0
+		for (const index of this.dataIndices()) data[index] = values[i++]
+		return this
+	}
+}
+
+/** resolve a `[start, end, step]` slice `range` over an axis of length `dim`, and return the resolved `start` index, number of selected elements, and `step` */
+const resolveSlice = (range: [start?: number, end?: number, step?: number], dim: number): [start: number, length: number, step: number] => {
+	let [start, end, step = 1] = range
+	if (step === 0 || !Number.isInteger(step)) throw new RangeError(`slice step must be a non-zero integer, but ${step} was provided`)
+	if (start !== undefined && start < 0) start += dim
+	if (end !== undefined && end < 0) end += dim
+	if (step > 0) {
+		start = Math.min(Math.max(start ?? 0, 0), dim)
+		end = Math.min(Math.max(end ?? dim, 0), dim)
+	} else {
+		// for negative steps, the exclusive `end` may go down to `-1`, which stands for "before the first element"
+		start = Math.min(Math.max(start ?? dim - 1, -1), dim - 1)
+		end = Math.min(Math.max(end ?? -1, -1), dim - 1)
+	}
+	return [start, Math.max(Math.ceil((end - start) / step), 0), step]
+}
@@ -2,19 +2,25 @@
  * @module
 */
 
-import { resolveRange } from "./typedbuffer"
-import { TypedArray } from "./typedefs"
+import { NDArray } from "./ndarray"
+import { isTypedArray, resolveRange, typed_array_dtype_of } from "./typedbuffer"
+import { NumberDType, TypedArray } from "./typedefs"
 
 
 /** compute the left-to-right running difference between successive elements <br>
  * the returned array's length is decremented by one. as a result, a single element array will turn into an empty array <br>
  * becareful when using with unsigned typed arrays <br>
+ * @example
+ * ```ts
+ * diff([1, 4, 9, 16]) // [3, 5, 7]
+ * diff([1, 4, 9, 16], 1) // [5, 7]
+ * ```
  * @copy
 */
-export const diff = <A extends TypedArray | Array<number> = any>(arr: A, start?: number, end?: number): A => {
+export const diff = <A extends TypedArray<NumberDType> | Array<number> = any>(arr: A, start?: number, end?: number): A => {
 	[start, end] = resolveRange(start, end, arr.length)
 	const d = arr.slice(start + 1, end) as A
-	for (let i = 0; i < d.length; i++) d[i] -= arr[start + i - 1]
+	for (let i = 0; i < d.length; i++) d[i] -= arr[start + i]
 	return d
 }
 
@@ -23,7 +29,7 @@ export const diff = <A extends TypedArray | Array<number> = any>(arr: A, start?:
  * becareful when using with unsigned typed arrays <br>
  * @copy
 */
-export const diff_right = <A extends TypedArray | Array<number> = any>(arr: A, start?: number, end?: number): A => {
+export const diff_right = <A extends TypedArray<NumberDType> | Array<number> = any>(arr: A, start?: number, end?: number): A => {
 	[start, end] = resolveRange(start, end, arr.length)
 	const d = arr.slice(start, end - 1) as A
 	for (let i = 0; i < d.length; i++) d[i] -= arr[start + i + 1]
@@ -32,6 +38,94 @@ export const diff_right = <A extends TypedArray | Array<number> = any>(arr: A, s
 
 /// ARITHMETIC OPERATIONS ON ARRAYS
 
+/** apply an in-place operation `fn`, which works over flat arrays, to the row-major elements of an {@link NDArray} view. <br>
+ * contiguous views are operated upon directly through a subarray of their data,
+ * while strided views are gathered into a temporary flat copy, operated upon, and then scattered back
+ * @inplace
+*/
+const inplaceNDArray = <A extends NDArray>(arr: A, fn: (flat: TypedArray<NumberDType>) => void): A => {
+	if (arr.isContiguous()) {
+		fn(arr.data.subarray(arr.offset, arr.offset + arr.size))
+		return arr
+	}
+	const flat = arr.flatten()
+	fn(flat)
+	return arr.assign(flat)
+}
+
+/** the behavior of in-place arithmetic operations on integer typed arrays when a result does not fit in the array's dtype
+ * - `"wrap"` let the typed array implicitly coerce the result, so that it wraps around modulo the dtype's range (ie `Uint8Array.of(250)` plus `10` becomes `4`)
+ * - `"saturate"` clamp the result to the dtype's range (ie `Uint8Array.of(250)` plus `10` becomes `255`). this is the behavior of `Uint8ClampedArray`. `NaN` results become `0`
+ * - `"throw"` throw an error when a result (or `NaN`) does not fit in the dtype's range. the array is left unmodified in that case
+ * 
+ * the modes have no effect on regular arrays and floating point typed arrays. <br>
+ * the bitwise operations (`bcomp`, `band`, `bor`, `bxor`, `blsh`, `brsh`, `bursh`, and their elementwise counterparts) ignore the mode as well,
+ * since their results are always truncated to 32-bits, and the typed array's implicit coercion then reinterprets those bits exactly. <br>
+ * a mode can either be provided per function call, or set as the default for a certain dtype via {@link setArithmeticMode}
+*/
+export type ArithmeticMode = "wrap" | "saturate" | "throw"
+
+/** the default {@link ArithmeticMode} of each integer dtype, which is used when no mode is explicitly provided */
+const arithmetic_modes: { [dtype in NumberDType]?: ArithmeticMode } = {
+	"u1": "wrap",
+	"u1c": "saturate",
+	"u2": "wrap",
+	"u4": "wrap",
+	"i1": "wrap",
+	"i2": "wrap",
+	"i4": "wrap",
+}
+
+/** the inclusive `[min, max]` range of values representable by each integer dtype */
+const dtype_ranges: { [dtype in NumberDType]?: [min: number, max: number] } = {
+	"u1": [0, 0xFF],
+	"u1c": [0, 0xFF],
+	"u2": [0, 0xFFFF],
+	"u4": [0, 0xFFFFFFFF],
+	"i1": [-0x80, 0x7F],
+	"i2": [-0x8000, 0x7FFF],
+	"i4": [-0x80000000, 0x7FFFFFFF],
+}
+
+/** set the default {@link ArithmeticMode} for arrays of an integer `dtype`. for instance, `setArithmeticMode("u2", "saturate")` gives every `Uint16Array` the same semantics as a `Uint8ClampedArray` */
+export const setArithmeticMode = (dtype: NumberDType, mode: ArithmeticMode): void => {
+	if (dtype_ranges[dtype] === undefined) throw new TypeError(`arithmetic modes can only be set for integer dtypes, but "${dtype}" was provided`)
+	arithmetic_modes[dtype] = mode
+}
+
+/** get the default {@link ArithmeticMode} for arrays of a `dtype`. floating point dtypes always return `"wrap"` */
+export const getArithmeticMode = (dtype: NumberDType): ArithmeticMode => arithmetic_modes[dtype] ?? "wrap"
+
+/** check if the array `arr` is an integer typed array whose results must be saturated or checked under the `mode` (or its dtype's default mode) */
+const isModeEnforced = (arr: TypedArray<NumberDType> | Array<number>, mode?: ArithmeticMode): boolean => {
+	if (!isTypedArray(arr)) return false
+	const dtype = typed_array_dtype_of(arr) as NumberDType
+	return dtype_ranges[dtype] !== undefined && (mode ?? getArithmeticMode(dtype)) !== "wrap"
+}
+
+/** apply an in-place operation `fn` to the range `start` to `end` of an integer typed array, while enforcing the {@link ArithmeticMode} `mode`. <br>
+ * the range is first copied into a temporary `Float64Array`, so that `fn` can produce results outside of the dtype's range,
+ * and then those results are saturated or checked before being written back
+ * @inplace
+*/
+const inplaceWithMode = <A extends TypedArray<NumberDType>>(arr: A, start: number | undefined, end: number | undefined, mode: ArithmeticMode | undefined, fn: (wide: Float64Array, start: number, end: number) => void): A => {
+	const
+		[xs, xe, len] = resolveRange(start, end, arr.length),
+		dtype = typed_array_dtype_of(arr) as NumberDType,
+		[lo, hi] = dtype_ranges[dtype]!,
+		saturate = (mode ?? getArithmeticMode(dtype)) === "saturate",
+		wide = Float64Array.from(arr.subarray(xs, xe))
+	fn(wide, 0, len)
+	for (let i = 0; i < len; i++) {
+		const value = wide[i]
+		if (value >= lo && value <= hi) continue
+		if (!saturate) throw new RangeError(`the result ${value} at index ${xs + i} does not fit in the range [${lo}, ${hi}] of the "${dtype}" dtype`)
+		wide[i] = value > hi ? hi : value < lo ? lo : 0
+	}
+	arr.set(wide, xs)
+	return arr
+}
+
 export type unaryOperator = "abs" | "neg" | "comp"
 export type scalarOperator = "add" | "sub" | "mult" | "div" | "pow" | "rem" | "mod" | "and" | "or" | "xor" | "<<" | ">>" | ">>>"
 export type elementwiseOperator = scalarOperator
@@ -39,34 +133,56 @@ export type elementwiseOperator = scalarOperator
 /** conduct in-place unary arithmatic operations on numeric arrays
  * @inplace
 */
-const unaryArithmetic = <A extends TypedArray | Array<number> = any>(operation: unaryOperator, arr: A, start?: number, end?: number): A => {
-	const [xs, xe] = resolveRange(start, end, arr.length)
+export const unaryArithmetic = <A extends TypedArray<NumberDType> | Array<number> | NDArray = any>(operation: unaryOperator, arr: A, start?: number, end?: number, mode?: ArithmeticMode): A => {
+	const [xs, xe] = resolveRange(start, end, arr instanceof NDArray ? arr.size : arr.length)
 	switch (operation) {
-		case "abs": return abs(arr, xs, xe)
-		case "neg": return neg(arr, xs, xe)
-		case "comp": return bcomp(arr, xs, xe)
+		case "abs": return abs(arr, xs, xe, mode)
+		case "neg": return neg(arr, xs, xe, mode)
+		case "comp": return bcomp(arr, xs, xe, mode)
 	}
 }
 
 /** conduct in-place scalar arithmatic operations on numeric arrays
  * @inplace
 */
-const scalarArithmetic = <A extends TypedArray | Array<number> = any>(operation: scalarOperator, arr: A, value: number, start?: number, end?: number): A => {
-	const [xs, xe] = resolveRange(start, end, arr.length)
+export const scalarArithmetic = <A extends TypedArray<NumberDType> | Array<number> | NDArray = any>(operation: scalarOperator, arr: A, value: number, start?: number, end?: number, mode?: ArithmeticMode): A => {
+	const [xs, xe] = resolveRange(start, end, arr instanceof NDArray ? arr.size : arr.length)
+	switch (operation) {
+		case "add": return add(arr, value, xs, xe, mode)
+		case "sub": return sub(arr, value, xs, xe, mode)
+		case "mult": return mult(arr, value, xs, xe, mode)
+		case "div": return div(arr, value, xs, xe, mode)
+		case "pow": return pow(arr, value, xs, xe, mode)
+		case "rem": return rem(arr, value, xs, xe, mode)
+		case "mod": return mod(arr, value, xs, xe, mode)
+		case "and": return band(arr, value, xs, xe, mode)
+		case "or": return bor(arr, value, xs, xe, mode)
+		case "xor": return bxor(arr, value, xs, xe, mode)
+		case "<<": return blsh(arr, value, xs, xe, mode)
+		case ">>": return brsh(arr, value, xs, xe, mode)
+		case ">>>": return bursh(arr, value, xs, xe, mode)
+	}
+}
+
+/** conduct in-place elementwise arithmatic operations between a numeric array and another array of `values` <br>
+ * see {@link resolveOperand} for how a shorter `values` array gets broadcasted
+ * @inplace
+*/
+export const elementwiseArithmetic = <A extends TypedArray<NumberDType> | Array<number> | NDArray = any>(operation: elementwiseOperator, arr: A, values: ArrayLike<number> | NDArray, start?: number, end?: number, mode?: ArithmeticMode): A => {
 	switch (operation) {
-		case "add": return add(arr, value, xs, xe)
-		case "sub": return sub(arr, value, xs, xe)
-		case "mult": return mult(arr, value, xs, xe)
-		case "div": return div(arr, value, xs, xe)
-		case "pow": return pow(arr, value, xs, xe)
-		case "rem": return rem(arr, value, xs, xe)
-		case "mod": return mod(arr, value, xs, xe)
-		case "and": return band(arr, value, xs, xe)
-		case "or": return bor(arr, value, xs, xe)
-		case "xor": return bxor(arr, value, xs, xe)
-		case "<<": return blsh(arr, value, xs, xe)
-		case ">>": return brsh(arr, value, xs, xe)
-		case ">>>": return bursh(arr, value, xs, xe)
+		case "and": return band_arr(arr, values, start, end, mode)
+		case "or": return bor_arr(arr, values, start, end, mode)
+		case "xor": return bxor_arr(arr, values, start, end, mode)
+		case "<<": return blsh_arr(arr, values, start, end, mode)
+		case ">>": return brsh_arr(arr, values, start, end, mode)
+		case ">>>": return bursh_arr(arr, values, start, end, mode)
+		case "add": return add_arr(arr, values, start, end, mode)
+		case "sub": return sub_arr(arr, values, start, end, mode)
+		case "mult": return mult_arr(arr, values, start, end, mode)
+		case "div": return div_arr(arr, values, start, end, mode)
+		case "pow": return pow_arr(arr, values, start, end, mode)
+		case "rem": return rem_arr(arr, values, start, end, mode)
+		case "mod": return mod_arr(arr, values, start, end, mode)
 	}
 }
 
@@ -76,7 +192,9 @@ const scalarArithmetic = <A extends TypedArray | Array<number> = any>(operation:
  * @unaryOperator
  * @inplace
  */
-export const abs = <A extends TypedArray | Array<number> = any>(arr: A, start: number = 0, end?: number): A => {
+export const abs = <A extends TypedArray<NumberDType> | Array<number> | NDArray = any>(arr: A, start: number = 0, end?: number, mode?: ArithmeticMode): A => {
+	if (arr instanceof NDArray) return inplaceNDArray(arr, (flat) => abs(flat, start, end, mode))
+	if (isModeEnforced(arr, mode)) return inplaceWithMode(arr as TypedArray<NumberDType>, start, end, mode, (wide, ws, we) => abs(wide, ws, we)) as A
 	start = start ?? 0
 	end = end ?? arr.length
 	for (let i = start; i < end; i++) arr[i] *= arr[i] < 0 ? -1 : 1
@@ -87,7 +205,9 @@ export const abs = <A extends TypedArray | Array<number> = any>(arr: A, start: n
  * @unaryOperator
  * @inplace
  */
-export const neg = <A extends TypedArray | Array<number> = any>(arr: A, start: number = 0, end?: number): A => {
+export const neg = <A extends TypedArray<NumberDType> | Array<number> | NDArray = any>(arr: A, start: number = 0, end?: number, mode?: ArithmeticMode): A => {
+	if (arr instanceof NDArray) return inplaceNDArray(arr, (flat) => neg(flat, start, end, mode))
+	if (isModeEnforced(arr, mode)) return inplaceWithMode(arr as TypedArray<NumberDType>, start, end, mode, (wide, ws, we) => neg(wide, ws, we)) as A
 	start = start ?? 0
 	end = end ?? arr.length
 	for (let i = start; i < end; i++) arr[i] *= -1
@@ -98,7 +218,8 @@ export const neg = <A extends TypedArray | Array<number> = any>(arr: A, start: n
  * @unaryOperator
  * @inplace
 */
-export const bcomp = <A extends TypedArray | Array<number> = any>(arr: A, start?: number, end?: number): A => {
+export const bcomp = <A extends TypedArray<NumberDType> | Array<number> | NDArray = any>(arr: A, start?: number, end?: number, mode?: ArithmeticMode): A => {
+	if (arr instanceof NDArray) return inplaceNDArray(arr, (flat) => bcomp(flat, start, end, mode))
 	start = start ?? 0
 	end = end ?? arr.length
 	for (let i = start; i < end; i++) arr[i] = ~arr[i]
@@ -106,13 +227,13 @@ export const bcomp = <A extends TypedArray | Array<number> = any>(arr: A, start?
 }
 
 /// SCALAR OPERATIONS
-/// TODO consider replacing some functions entirely with a linear function `y = ax + b`.
 
 /** mutate array in-place to get **bitwise and** against a scalar `value` <br>
  * @scalarOperator
  * @inplace
 */
-export const band = <A extends TypedArray | Array<number> = any>(arr: A, value: number, start?: number, end?: number): A => {
+export const band = <A extends TypedArray<NumberDType> | Array<number> | NDArray = any>(arr: A, value: number, start?: number, end?: number, mode?: ArithmeticMode): A => {
+	if (arr instanceof NDArray) return inplaceNDArray(arr, (flat) => band(flat, value, start, end, mode))
 	start = start ?? 0
 	end = end ?? arr.length
 	for (let i = start; i < end; i++) arr[i] &= value
@@ -123,7 +244,8 @@ export const band = <A extends TypedArray | Array<number> = any>(arr: A, value:
  * @scalarOperator
  * @inplace
 */
-export const bor = <A extends TypedArray | Array<number> = any>(arr: A, value: number, start?: number, end?: number): A => {
+export const bor = <A extends TypedArray<NumberDType> | Array<number> | NDArray = any>(arr: A, value: number, start?: number, end?: number, mode?: ArithmeticMode): A => {
+	if (arr instanceof NDArray) return inplaceNDArray(arr, (flat) => bor(flat, value, start, end, mode))
 	start = start ?? 0
 	end = end ?? arr.length
 	for (let i = start; i < end; i++) arr[i] |= value
@@ -134,7 +256,8 @@ export const bor = <A extends TypedArray | Array<number> = any>(arr: A, value: n
  * @scalarOperator
  * @inplace
 */
-export const bxor = <A extends TypedArray | Array<number> = any>(arr: A, value: number, start?: number, end?: number): A => {
+export const bxor = <A extends TypedArray<NumberDType> | Array<number> | NDArray = any>(arr: A, value: number, start?: number, end?: number, mode?: ArithmeticMode): A => {
+	if (arr instanceof NDArray) return inplaceNDArray(arr, (flat) => bxor(flat, value, start, end, mode))
 	start = start ?? 0
 	end = end ?? arr.length
 	for (let i = start; i < end; i++) arr[i] ^= value
@@ -145,7 +268,8 @@ export const bxor = <A extends TypedArray | Array<number> = any>(arr: A, value:
  * @scalarOperator
  * @inplace
 */
-export const blsh = <A extends TypedArray | Array<number> = any>(arr: A, value: number, start?: number, end?: number): A => {
+export const blsh = <A extends TypedArray<NumberDType> | Array<number> | NDArray = any>(arr: A, value: number, start?: number, end?: number, mode?: ArithmeticMode): A => {
+	if (arr instanceof NDArray) return inplaceNDArray(arr, (flat) => blsh(flat, value, start, end, mode))
 	start = start ?? 0
 	end = end ?? arr.length
 	for (let i = start; i < end; i++) arr[i] <<= value
@@ -156,7 +280,8 @@ export const blsh = <A extends TypedArray | Array<number> = any>(arr: A, value:
  * @scalarOperator
  * @inplace
 */
-export const brsh = <A extends TypedArray | Array<number> = any>(arr: A, value: number, start?: number, end?: number): A => {
+export const brsh = <A extends TypedArray<NumberDType> | Array<number> | NDArray = any>(arr: A, value: number, start?: number, end?: number, mode?: ArithmeticMode): A => {
+	if (arr instanceof NDArray) return inplaceNDArray(arr, (flat) => brsh(flat, value, start, end, mode))
 	start = start ?? 0
 	end = end ?? arr.length
 	for (let i = start; i < end; i++) arr[i] >>= value
@@ -167,7 +292,8 @@ export const brsh = <A extends TypedArray | Array<number> = any>(arr: A, value:
  * @scalarOperator
  * @inplace
 */
-export const bursh = <A extends TypedArray | Array<number> = any>(arr: A, value: number, start?: number, end?: number): A => {
+export const bursh = <A extends TypedArray<NumberDType> | Array<number> | NDArray = any>(arr: A, value: number, start?: number, end?: number, mode?: ArithmeticMode): A => {
+	if (arr instanceof NDArray) return inplaceNDArray(arr, (flat) => bursh(flat, value, start, end, mode))
 	start = start ?? 0
 	end = end ?? arr.length
 	for (let i = start; i < end; i++) arr[i] >>>= value
@@ -178,7 +304,9 @@ export const bursh = <A extends TypedArray | Array<number> = any>(arr: A, value:
  * @scalarOperator
  * @inplace
 */
-export const add = <A extends TypedArray | Array<number> = any>(arr: A, value: number, start?: number, end?: number): A => {
+export const add = <A extends TypedArray<NumberDType> | Array<number> | NDArray = any>(arr: A, value: number, start?: number, end?: number, mode?: ArithmeticMode): A => {
+	if (arr instanceof NDArray) return inplaceNDArray(arr, (flat) => add(flat, value, start, end, mode))
+	if (isModeEnforced(arr, mode)) return inplaceWithMode(arr as TypedArray<NumberDType>, start, end, mode, (wide, ws, we) => add(wide, value, ws, we)) as A
 	start = start ?? 0
 	end = end ?? arr.length
 	for (let i = start; i < end; i++) arr[i] += value
@@ -189,7 +317,9 @@ export const add = <A extends TypedArray | Array<number> = any>(arr: A, value: n
  * @scalarOperator
  * @inplace
 */
-export const sub = <A extends TypedArray | Array<number> = any>(arr: A, value: number, start?: number, end?: number): A => {
+export const sub = <A extends TypedArray<NumberDType> | Array<number> | NDArray = any>(arr: A, value: number, start?: number, end?: number, mode?: ArithmeticMode): A => {
+	if (arr instanceof NDArray) return inplaceNDArray(arr, (flat) => sub(flat, value, start, end, mode))
+	if (isModeEnforced(arr, mode)) return inplaceWithMode(arr as TypedArray<NumberDType>, start, end, mode, (wide, ws, we) => sub(wide, value, ws, we)) as A
 	start = start ?? 0
 	end = end ?? arr.length
 	for (let i = start; i < end; i++) arr[i] -= value
@@ -200,7 +330,9 @@ export const sub = <A extends TypedArray | Array<number> = any>(arr: A, value: n
  * @scalarOperator
  * @inplace
 */
-export const mult = <A extends TypedArray | Array<number> = any>(arr: A, value: number, start?: number, end?: number): A => {
+export const mult = <A extends TypedArray<NumberDType> | Array<number> | NDArray = any>(arr: A, value: number, start?: number, end?: number, mode?: ArithmeticMode): A => {
+	if (arr instanceof NDArray) return inplaceNDArray(arr, (flat) => mult(flat, value, start, end, mode))
+	if (isModeEnforced(arr, mode)) return inplaceWithMode(arr as TypedArray<NumberDType>, start, end, mode, (wide, ws, we) => mult(wide, value, ws, we)) as A
 	start = start ?? 0
 	end = end ?? arr.length
 	for (let i = start; i < end; i++) arr[i] *= value
@@ -211,7 +343,9 @@ export const mult = <A extends TypedArray | Array<number> = any>(arr: A, value:
  * @scalarOperator
  * @inplace
 */
-export const div = <A extends TypedArray | Array<number> = any>(arr: A, value: number, start?: number, end?: number): A => {
+export const div = <A extends TypedArray<NumberDType> | Array<number> | NDArray = any>(arr: A, value: number, start?: number, end?: number, mode?: ArithmeticMode): A => {
+	if (arr instanceof NDArray) return inplaceNDArray(arr, (flat) => div(flat, value, start, end, mode))
+	if (isModeEnforced(arr, mode)) return inplaceWithMode(arr as TypedArray<NumberDType>, start, end, mode, (wide, ws, we) => div(wide, value, ws, we)) as A
 	start = start ?? 0
 	end = end ?? arr.length
 	for (let i = start; i < end; i++) arr[i] /= value
@@ -222,7 +356,9 @@ export const div = <A extends TypedArray | Array<number> = any>(arr: A, value: n
  * @scalarOperator
  * @inplace
 */
-export const pow = <A extends TypedArray | Array<number> = any>(arr: A, value: number, start?: number, end?: number): A => {
+export const pow = <A extends TypedArray<NumberDType> | Array<number> | NDArray = any>(arr: A, value: number, start?: number, end?: number, mode?: ArithmeticMode): A => {
+	if (arr instanceof NDArray) return inplaceNDArray(arr, (flat) => pow(flat, value, start, end, mode))
+	if (isModeEnforced(arr, mode)) return inplaceWithMode(arr as TypedArray<NumberDType>, start, end, mode, (wide, ws, we) => pow(wide, value, ws, we)) as A
 	start = start ?? 0
 	end = end ?? arr.length
 	for (let i = start; i < end; i++) arr[i] **= value
@@ -234,7 +370,9 @@ export const pow = <A extends TypedArray | Array<number> = any>(arr: A, value: n
  * @scalarOperator
  * @inplace
 */
-export const rem = <A extends TypedArray | Array<number> = any>(arr: A, value: number, start?: number, end?: number): A => {
+export const rem = <A extends TypedArray<NumberDType> | Array<number> | NDArray = any>(arr: A, value: number, start?: number, end?: number, mode?: ArithmeticMode): A => {
+	if (arr instanceof NDArray) return inplaceNDArray(arr, (flat) => rem(flat, value, start, end, mode))
+	if (isModeEnforced(arr, mode)) return inplaceWithMode(arr as TypedArray<NumberDType>, start, end, mode, (wide, ws, we) => rem(wide, value, ws, we)) as A
 	start = start ?? 0
 	end = end ?? arr.length
 	for (let i = start; i < end; i++) arr[i] %= value
@@ -246,10 +384,325 @@ export const rem = <A extends TypedArray | Array<number> = any>(arr: A, value: n
  * @scalarOperator
  * @inplace
 */
-export const mod = <A extends TypedArray | Array<number> = any>(arr: A, value: number, start?: number, end?: number): A => {
+export const mod = <A extends TypedArray<NumberDType> | Array<number> | NDArray = any>(arr: A, value: number, start?: number, end?: number, mode?: ArithmeticMode): A => {
+	if (arr instanceof NDArray) return inplaceNDArray(arr, (flat) => mod(flat, value, start, end, mode))
+	if (isModeEnforced(arr, mode)) return inplaceWithMode(arr as TypedArray<NumberDType>, start, end, mode, (wide, ws, we) => mod(wide, value, ws, we)) as A
 	start = start ?? 0
 	end = end ?? arr.length
 	for (let i = start; i < end; i++) arr[i] = ((arr[i] % value) + value) % value
 	return arr
 }
 
+/// ELEMENTWISE OPERATIONS
+
+/** resolve the right-hand operand `values` of an elementwise operation over a range of `length` number of elements. <br>
+ * an {@link NDArray} operand is flattened into row-major order. <br>
+ * an operand that is shorter than the range gets broadcasted (ie repeated cyclically) over it, provided that the range's `length` is a multiple of the operand's length.
+ * for instance, a 3 element operand can be broadcasted over the rgb channels of an interleaved image. <br>
+ * an operand that is longer than the range has its excess elements ignored
+*/
+const resolveOperand = (values: ArrayLike<number> | NDArray, length: number): ArrayLike<number> => {
+	if (values instanceof NDArray) values = values.flatten()
+	const values_length = values.length
+	if (values_length < length && (values_length === 0 || length % values_length !== 0)) {
+		throw new RangeError(`an operand of length ${values_length} cannot be broadcasted over a range of length ${length}`)
+	}
+	return values
+}
+
+/** mutate array in-place to get **bitwise and** against the corresponding elements of an array of `values` <br>
+ * @elementwiseOperator
+ * @inplace
+*/
+export const band_arr = <A extends TypedArray<NumberDType> | Array<number> | NDArray = any>(arr: A, values: ArrayLike<number> | NDArray, start?: number, end?: number, mode?: ArithmeticMode): A => {
+	if (arr instanceof NDArray) return inplaceNDArray(arr, (flat) => band_arr(flat, values, start, end, mode))
+	const [xs, xe, len] = resolveRange(start, end, arr.length)
+	values = resolveOperand(values, len)
+	const values_length = values.length
+	for (let i = xs, j = 0; i < xe; i++, j++) {
+		if (j === values_length) j = 0
+		arr[i] &= values[j]
+	}
+	return arr
+}
+
+/** mutate array in-place to get **bitwise or** against the corresponding elements of an array of `values` <br>
+ * @elementwiseOperator
+ * @inplace
+*/
+export const bor_arr = <A extends TypedArray<NumberDType> | Array<number> | NDArray = any>(arr: A, values: ArrayLike<number> | NDArray, start?: number, end?: number, mode?: ArithmeticMode): A => {
+	if (arr instanceof NDArray) return inplaceNDArray(arr, (flat) => bor_arr(flat, values, start, end, mode))
+	const [xs, xe, len] = resolveRange(start, end, arr.length)
+	values = resolveOperand(values, len)
+	const values_length = values.length
+	for (let i = xs, j = 0; i < xe; i++, j++) {
+		if (j === values_length) j = 0
+		arr[i] |= values[j]
+	}
+	return arr
+}
+
+/** mutate array in-place to get **bitwise xor** against the corresponding elements of an array of `values` <br>
+ * @elementwiseOperator
+ * @inplace
+*/
+export const bxor_arr = <A extends TypedArray<NumberDType> | Array<number> | NDArray = any>(arr: A, values: ArrayLike<number> | NDArray, start?: number, end?: number, mode?: ArithmeticMode): A => {
+	if (arr instanceof NDArray) return inplaceNDArray(arr, (flat) => bxor_arr(flat, values, start, end, mode))
+	const [xs, xe, len] = resolveRange(start, end, arr.length)
+	values = resolveOperand(values, len)
+	const values_length = values.length
+	for (let i = xs, j = 0; i < xe; i++, j++) {
+		if (j === values_length) j = 0
+		arr[i] ^= values[j]
+	}
+	return arr
+}
+
+/** mutate array in-place to get **bitwise left-shift** (`<<`) against the corresponding elements of an array of `values` <br>
+ * @elementwiseOperator
+ * @inplace
+*/
+export const blsh_arr = <A extends TypedArray<NumberDType> | Array<number> | NDArray = any>(arr: A, values: ArrayLike<number> | NDArray, start?: number, end?: number, mode?: ArithmeticMode): A => {
+	if (arr instanceof NDArray) return inplaceNDArray(arr, (flat) => blsh_arr(flat, values, start, end, mode))
+	const [xs, xe, len] = resolveRange(start, end, arr.length)
+	values = resolveOperand(values, len)
+	const values_length = values.length
+	for (let i = xs, j = 0; i < xe; i++, j++) {
+		if (j === values_length) j = 0
+		arr[i] <<= values[j]
+	}
+	return arr
+}
+
+/** mutate array in-place to get **bitwise right-shift** (`>>`) against the corresponding elements of an array of `values` <br>
+ * @elementwiseOperator
+ * @inplace
+*/
+export const brsh_arr = <A extends TypedArray<NumberDType> | Array<number> | NDArray = any>(arr: A, values: ArrayLike<number> | NDArray, start?: number, end?: number, mode?: ArithmeticMode): A => {
+	if (arr instanceof NDArray) return inplaceNDArray(arr, (flat) => brsh_arr(flat, values, start, end, mode))
+	const [xs, xe, len] = resolveRange(start, end, arr.length)
+	values = resolveOperand(values, len)
+	const values_length = values.length
+	for (let i = xs, j = 0; i < xe; i++, j++) {
+		if (j === values_length) j = 0
+		arr[i] >>= values[j]
+	}
+	return arr
+}
+
+/** mutate array in-place to get **bitwise unsinged right-shift** (`>>>`) against the corresponding elements of an array of `values` <br>
+ * @elementwiseOperator
+ * @inplace
+*/
+export const bursh_arr = <A extends TypedArray<NumberDType> | Array<number> | NDArray = any>(arr: A, values: ArrayLike<number> | NDArray, start?: number, end?: number, mode?: ArithmeticMode): A => {
+	if (arr instanceof NDArray) return inplaceNDArray(arr, (flat) => bursh_arr(flat, values, start, end, mode))
+	const [xs, xe, len] = resolveRange(start, end, arr.length)
+	values = resolveOperand(values, len)
+	const values_length = values.length
+	for (let i = xs, j = 0; i < xe; i++, j++) {
+		if (j === values_length) j = 0
+		arr[i] >>>= values[j]
+	}
+	return arr
+}
+
+/** mutate array in-place to **add** the corresponding elements of an array of `values` <br>
+ * @elementwiseOperator
+ * @inplace
+*/
+export const add_arr = <A extends TypedArray<NumberDType> | Array<number> | NDArray = any>(arr: A, values: ArrayLike<number> | NDArray, start?: number, end?: number, mode?: ArithmeticMode): A => {
+	if (arr instanceof NDArray) return inplaceNDArray(arr, (flat) => add_arr(flat, values, start, end, mode))
+	if (isModeEnforced(arr, mode)) return inplaceWithMode(arr as TypedArray<NumberDType>, start, end, mode, (wide, ws, we) => add_arr(wide, values, ws, we)) as A
+	const [xs, xe, len] = resolveRange(start, end, arr.length)
+	values = resolveOperand(values, len)
+	const values_length = values.length
+	for (let i = xs, j = 0; i < xe; i++, j++) {
+		if (j === values_length) j = 0
+		arr[i] += values[j]
+	}
+	return arr
+}
+
+/** mutate array in-place to **subtract** the corresponding elements of an array of `values` <br>
+ * @elementwiseOperator
+ * @inplace
+*/
+export const sub_arr = <A extends TypedArray<NumberDType> | Array<number> | NDArray = any>(arr: A, values: ArrayLike<number> | NDArray, start?: number, end?: number, mode?: ArithmeticMode): A => {
+	if (arr instanceof NDArray) return inplaceNDArray(arr, (flat) => sub_arr(flat, values, start, end, mode))
+	if (isModeEnforced(arr, mode)) return inplaceWithMode(arr as TypedArray<NumberDType>, start, end, mode, (wide, ws, we) => sub_arr(wide, values, ws, we)) as A
+	const [xs, xe, len] = resolveRange(start, end, arr.length)
+	values = resolveOperand(values, len)
+	const values_length = values.length
+	for (let i = xs, j = 0; i < xe; i++, j++) {
+		if (j === values_length) j = 0
+		arr[i] -= values[j]
+	}
+	return arr
+}
+
+/** mutate array in-place to **multiply** by the corresponding elements of an array of `values` <br>
+ * @elementwiseOperator
+ * @inplace
+*/
+export const mult_arr = <A extends TypedArray<NumberDType> | Array<number> | NDArray = any>(arr: A, values: ArrayLike<number> | NDArray, start?: number, end?: number, mode?: ArithmeticMode): A => {
+	if (arr instanceof NDArray) return inplaceNDArray(arr, (flat) => mult_arr(flat, values, start, end, mode))
+	if (isModeEnforced(arr, mode)) return inplaceWithMode(arr as TypedArray<NumberDType>, start, end, mode, (wide, ws, we) => mult_arr(wide, values, ws, we)) as A
+	const [xs, xe, len] = resolveRange(start, end, arr.length)
+	values = resolveOperand(values, len)
+	const values_length = values.length
+	for (let i = xs, j = 0; i < xe; i++, j++) {
+		if (j === values_length) j = 0
+		arr[i] *= values[j]
+	}
+	return arr
+}
+
+/** mutate array in-place to **divide** by the corresponding elements of an array of `values` <br>
+ * @elementwiseOperator
+ * @inplace
+*/
+export const div_arr = <A extends TypedArray<NumberDType> | Array<number> | NDArray = any>(arr: A, values: ArrayLike<number> | NDArray, start?: number, end?: number, mode?: ArithmeticMode): A => {
+	if (arr instanceof NDArray) return inplaceNDArray(arr, (flat) => div_arr(flat, values, start, end, mode))
+	if (isModeEnforced(arr, mode)) return inplaceWithMode(arr as TypedArray<NumberDType>, start, end, mode, (wide, ws, we) => div_arr(wide, values, ws, we)) as A
+	const [xs, xe, len] = resolveRange(start, end, arr.length)
+	values = resolveOperand(values, len)
+	const values_length = values.length
+	for (let i = xs, j = 0; i < xe; i++, j++) {
+		if (j === values_length) j = 0
+		arr[i] /= values[j]
+	}
+	return arr
+}
+
+/** mutate array in-place to raise it to the **power** of the corresponding elements of an array of `values` <br>
+ * @elementwiseOperator
+ * @inplace
+*/
+export const pow_arr = <A extends TypedArray<NumberDType> | Array<number> | NDArray = any>(arr: A, values: ArrayLike<number> | NDArray, start?: number, end?: number, mode?: ArithmeticMode): A => {
+	if (arr instanceof NDArray) return inplaceNDArray(arr, (flat) => pow_arr(flat, values, start, end, mode))
+	if (isModeEnforced(arr, mode)) return inplaceWithMode(arr as TypedArray<NumberDType>, start, end, mode, (wide, ws, we) => pow_arr(wide, values, ws, we)) as A
+	const [xs, xe, len] = resolveRange(start, end, arr.length)
+	values = resolveOperand(values, len)
+	const values_length = values.length
+	for (let i = xs, j = 0; i < xe; i++, j++) {
+		if (j === values_length) j = 0
+		arr[i] **= values[j]
+	}
+	return arr
+}
+
+/** mutate array in-place to get the **remainder** (`%`) when divided by the corresponding elements of an array of `values` <br>
+ * note that this is slightly different from the modulo {@link mod_arr} operator, as this can have a negative sign <br>
+ * @elementwiseOperator
+ * @inplace
+*/
+export const rem_arr = <A extends TypedArray<NumberDType> | Array<number> | NDArray = any>(arr: A, values: ArrayLike<number> | NDArray, start?: number, end?: number, mode?: ArithmeticMode): A => {
+	if (arr instanceof NDArray) return inplaceNDArray(arr, (flat) => rem_arr(flat, values, start, end, mode))
+	if (isModeEnforced(arr, mode)) return inplaceWithMode(arr as TypedArray<NumberDType>, start, end, mode, (wide, ws, we) => rem_arr(wide, values, ws, we)) as A
+	const [xs, xe, len] = resolveRange(start, end, arr.length)
+	values = resolveOperand(values, len)
+	const values_length = values.length
+	for (let i = xs, j = 0; i < xe; i++, j++) {
+		if (j === values_length) j = 0
+		arr[i] %= values[j]
+	}
+	return arr
+}
+
+/** mutate array in-place to get the **modulo** when divided by the corresponding elements of an array of `values` <br>
+ * note that this is slightly different from the remainder {@link rem_arr} operator, as this always returns a positive number <br>
+ * @elementwiseOperator
+ * @inplace
+*/
+export const mod_arr = <A extends TypedArray<NumberDType> | Array<number> | NDArray = any>(arr: A, values: ArrayLike<number> | NDArray, start?: number, end?: number, mode?: ArithmeticMode): A => {
+	if (arr instanceof NDArray) return inplaceNDArray(arr, (flat) => mod_arr(flat, values, start, end, mode))
+	if (isModeEnforced(arr, mode)) return inplaceWithMode(arr as TypedArray<NumberDType>, start, end, mode, (wide, ws, we) => mod_arr(wide, values, ws, we)) as A
+	const [xs, xe, len] = resolveRange(start, end, arr.length)
+	values = resolveOperand(values, len)
+	const values_length = values.length
+	for (let i = xs, j = 0; i < xe; i++, j++) {
+		if (j === values_length) j = 0
+		arr[i] = ((arr[i] % values[j]) + values[j]) % values[j]
+	}
+	return arr
+}
+
+/// FUSED KERNELS
+/// these walk over the array only once, instead of chaining multiple scalar operations (such as {@link mult} followed by {@link add}).
+/// they write their results into an optional `out` array (at the same indexes as the source), which defaults to the source array itself (ie in-place).
+/// this allows for the output to be of a different dtype, such as when normalizing a `Uint16Array` into a fresh `Float32Array`.
+
+/** compute the **affine** (linear) transform `y = a * x + b` of elements in a single pass <br>
+ * @example
+ * ```ts
+ * const samples = Uint16Array.of(0, 32768, 65535)
+ * affine(samples, 1 / 65535, 0, undefined, undefined, new Float32Array(samples.length)) // Float32Array [0, 0.50000762939, 1]
+ * ```
+ * @inplace when `out` is not provided
+ * @copy when `out` is provided
+*/
+export const affine = <A extends TypedArray<NumberDType> | Array<number> = any, B extends TypedArray<NumberDType> | Array<number> = A>(arr: A, a: number, b: number, start?: number, end?: number, out?: B): B => {
+	const
+		[xs, xe] = resolveRange(start, end, arr.length),
+		y = (out ?? arr) as B
+	for (let i = xs; i < xe; i++) y[i] = a * arr[i] + b
+	return y
+}
+
+/** **clamp** elements to the inclusive range `[min, max]` in a single pass <br>
+ * @inplace when `out` is not provided
+ * @copy when `out` is provided
+*/
+export const clamp = <A extends TypedArray<NumberDType> | Array<number> = any, B extends TypedArray<NumberDType> | Array<number> = A>(arr: A, min: number, max: number, start?: number, end?: number, out?: B): B => {
+	const
+		[xs, xe] = resolveRange(start, end, arr.length),
+		y = (out ?? arr) as B
+	for (let i = xs; i < xe; i++) {
+		const x = arr[i]
+		y[i] = x < min ? min : x > max ? max : x
+	}
+	return y
+}
+
+/** compute the **affine** transform `y = a * x + b` of elements, and then **clamp** the results to the inclusive range `[min, max]`, all in a single pass <br>
+ * @example
+ * ```ts
+ * // increase the contrast of a 16-bit image by 1.5x around its mid-level, without wrapping around
+ * affineClamp(pixels, 1.5, -16384, 0, 65535)
+ * ```
+ * @inplace when `out` is not provided
+ * @copy when `out` is provided
+*/
+export const affineClamp = <A extends TypedArray<NumberDType> | Array<number> = any, B extends TypedArray<NumberDType> | Array<number> = A>(arr: A, a: number, b: number, min: number, max: number, start?: number, end?: number, out?: B): B => {
+	const
+		[xs, xe] = resolveRange(start, end, arr.length),
+		y = (out ?? arr) as B
+	for (let i = xs; i < xe; i++) {
+		const x = a * arr[i] + b
+		y[i] = x < min ? min : x > max ? max : x
+	}
+	return y
+}
+
+/** map each integer element through a **lookup table** `table`, so that `y = table[x]` <br>
+ * every element must be a valid index of the `table`, otherwise an error is thrown
+ * @example
+ * ```ts
+ * // apply a gamma correction curve to an 8-bit image
+ * const gamma_table = Uint8Array.from({ length: 256 }, (_, x) => 255 * (x / 255) ** (1 / 2.2))
+ * lut(pixels, gamma_table)
+ * ```
+ * @inplace when `out` is not provided
+ * @copy when `out` is provided
+*/
+export const lut = <A extends TypedArray<NumberDType> | Array<number> = any, B extends TypedArray<NumberDType> | Array<number> = A>(arr: A, table: TypedArray<NumberDType> | Array<number>, start?: number, end?: number, out?: B): B => {
+	const
+		[xs, xe] = resolveRange(start, end, arr.length),
+		y = (out ?? arr) as B
+	for (let i = xs; i < xe; i++) {
+		const value = table[arr[i]]
+		if (value === undefined) throw new RangeError(`the element ${arr[i]} at index ${i} is not a valid index of the lookup table of length ${table.length}`)
+		y[i] = value
+	}
+	return y
+}
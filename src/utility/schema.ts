@@ -0,0 +1,243 @@
+/** declarative binary schemas (codecs) built on top of {@link pack} and {@link unpack} from the `eightpack` module. <br>
+ * a schema is a tree of {@link SchemaNode}s that describes the layout of some binary format.
+ * the decoded javascript value type of any schema is inferred from its definition.
+ * @example
+ * ```ts
+ * const header = new SchemaRecord({
+ * 	magic: new SchemaPrimitive("str", 4),
+ * 	version: new SchemaPrimitive("u2l"),
+ * 	mode: new SchemaEnum(new SchemaPrimitive("u1"), { read: 0, write: 1 }),
+ * 	size: new SchemaTuple([new SchemaPrimitive("u4l"), new SchemaPrimitive("u4l")]),
+ * 	tags: new SchemaArray(new SchemaPrimitive("cstr")),
+ * })
+ * // `header_value` is inferred as `{ magic: string, version: number, mode: "read" | "write", size: [number, number], tags: string[] }`
+ * const [header_value, bytesize] = header.decode(buf, 0)
+ * ```
+ * @module
+*/
+
+import { Decoded, JSPrimitiveOf, decode_uvar, encode_uvar, pack, PrimitiveType, unpack } from "./eightpack"
+import { concatBytes, isIdentical } from "./typedbuffer"
+
+declare const DEBUG: boolean
+
+/** get the decoded javascript value type of a schema node `S` */
+export type SchemaValueOf<S extends SchemaNode<any, string>> = NonNullable<S["value"]>
+
+/** the base class of all schema nodes. <br>
+ * a schema node is capable of encoding a javascript value of type `T` into bytes, and decoding it back. <br>
+ * when the `DEBUG` compiler option is `true`, the most recently encoded or decoded value gets assigned to {@link value},
+ * so that you may inspect it in case of a breakdown.
+ * @typeParam T the javascript value type that this node encodes and decodes
+ * @typeParam TypeName the name of the kind of node, such as `"record"` or a {@link PrimitiveType}
+*/
+export abstract class SchemaNode<T, TypeName extends string> {
+	/** the name of the kind of this node */
+	readonly type: TypeName
+	/** the most recently encoded or decoded value. only assigned when `DEBUG` is `true`. <br>
+	 * it also serves the purpose of carrying the type `T` for {@link SchemaValueOf}
+	*/
+	value?: T
+
+	constructor(type: TypeName) {
+		this.type = type
+	}
+
+	/** encode a javascript `value` into bytes */
+	abstract encode(value: T): Uint8Array
+
+	/** decode bytes from `buf`, starting at position `offset` */
+	abstract decode(buf: Uint8Array, offset: number): Decoded<T>
+}
+
+/** a leaf schema node that encodes and decodes a single {@link PrimitiveType} through {@link pack} and {@link unpack}. <br>
+ * any additional `args` are forwarded to the packer and the unpacker, such as the bytesize of a `"str"`, or the length of a numeric array. <br>
+ * when the `DEBUG` compiler option is `true`, every encoded value is verified to round-trip through the unpacker (see {@link assertRoundTrip})
+*/
+export class SchemaPrimitive<P extends PrimitiveType> extends SchemaNode<JSPrimitiveOf<P>, P> {
+	/** additional arguments forwarded to {@link pack} and {@link unpack} */
+	readonly args: any[]
+
+	constructor(type: P, ...args: any[]) {
+		super(type)
+		this.args = args
+	}
+
+	encode(value: JSPrimitiveOf<P>): Uint8Array {
+		const bytes = pack(this.type, value, ...this.args)
+		if (DEBUG) {
+			this.value = value
+			this.assertRoundTrip(bytes)
+		}
+		return bytes
+	}
+
+	decode(buf: Uint8Array, offset: number): Decoded<JSPrimitiveOf<P>> {
+		const [value, bytesize] = unpack(this.type, buf, offset, ...this.args) as Decoded<JSPrimitiveOf<P>>
+		if (DEBUG) this.value = value
+		return [value, bytesize]
+	}
+
+	/** verify that the freshly encoded `bytes` decode back (using the same {@link args}) into a value that encodes into the very same bytes,
+	 * and that the decoder consumes all of them. this catches any mismatch between the arguments that {@link pack} and {@link unpack} expect,
+	 * which would otherwise silently corrupt the data. <br>
+	 * the bytes are compared instead of the values, since lossy types (such as `"f4"`) do not decode back into the exact original value
+	*/
+	protected assertRoundTrip(bytes: Uint8Array): void {
+		const
+			[value, bytesize] = unpack(this.type, bytes, 0, ...this.args),
+			reencoded_bytes = pack(this.type, value, ...this.args)
+		if (bytesize !== bytes.length || !isIdentical(reencoded_bytes, bytes)) {
+			throw new Error(`the "${this.type}" schema primitive with the arguments [${this.args}] does not round-trip: ${bytes.length} encoded bytes were decoded as ${bytesize} bytes, and re-encoded as [${reencoded_bytes}] instead of [${bytes}]`)
+		}
+	}
+}
+
+/** a schema node that sequentially encodes and decodes the named `children` nodes of an object (akin to a c-struct). <br>
+ * the order of encoding follows the insertion order of the keys in `children`
+*/
+export class SchemaRecord<C extends { [key: string]: SchemaNode<any, string> }> extends SchemaNode<{ [K in keyof C]: SchemaValueOf<C[K]> }, "record"> {
+	/** the named child nodes of this record */
+	readonly children: C
+
+	constructor(children: C) {
+		super("record")
+		this.children = children
+	}
+
+	encode(value: { [K in keyof C]: SchemaValueOf<C[K]> }): Uint8Array {
+		if (DEBUG) this.value = value
+		const bufs: Uint8Array[] = []
+		for (const key in this.children) bufs.push(this.children[key].encode(value[key]))
+		return concatBytes(...bufs)
+	}
+
+	decode(buf: Uint8Array, offset: number): Decoded<{ [K in keyof C]: SchemaValueOf<C[K]> }> {
+		const value = {} as { [K in keyof C]: SchemaValueOf<C[K]> }
+		let total_bytesize = 0
+		for (const key in this.children) {
+			const [child_value, bytesize] = this.children[key].decode(buf, offset + total_bytesize)
+			value[key] = child_value
+			total_bytesize += bytesize
+		}
+		if (DEBUG) this.value = value
+		return [value, total_bytesize]
+	}
+}
+
+/** a schema node that sequentially encodes and decodes a fixed list of `children` nodes, each of which may be of a different kind */
+export class SchemaTuple<C extends SchemaNode<any, string>[]> extends SchemaNode<{ [K in keyof C]: SchemaValueOf<C[K]> }, "tuple"> {
+	/** the ordered child nodes of this tuple */
+	readonly children: [...C]
+
+	constructor(children: [...C]) {
+		super("tuple")
+		this.children = children
+	}
+
+	encode(value: { [K in keyof C]: SchemaValueOf<C[K]> }): Uint8Array {
+		if (DEBUG) this.value = value
+		const
+			children = this.children,
+			len = children.length,
+			bufs: Uint8Array[] = []
+		for (let i = 0; i < len; i++) bufs.push(children[i].encode(value[i]))
+		return concatBytes(...bufs)
+	}
+
+	decode(buf: Uint8Array, offset: number): Decoded<{ [K in keyof C]: SchemaValueOf<C[K]> }> {
+		const
+			children = this.children,
+			len = children.length,
+			value: any[] = []
+		let total_bytesize = 0
+		for (let i = 0; i < len; i++) {
+			const [child_value, bytesize] = children[i].decode(buf, offset + total_bytesize)
+			value.push(child_value)
+			total_bytesize += bytesize
+		}
+		if (DEBUG) this.value = value as { [K in keyof C]: SchemaValueOf<C[K]> }
+		return [value as { [K in keyof C]: SchemaValueOf<C[K]> }, total_bytesize]
+	}
+}
+
+/** a schema node that encodes and decodes a homogeneous array of `item` nodes. <br>
+ * if a fixed `length` is provided, then exactly that many items are encoded and decoded. <br>
+ * otherwise, when `length` is `undefined`, the number of items is stored as a `"uv"` header (see {@link encode_uvar}) preceding the items
+*/
+export class SchemaArray<S extends SchemaNode<any, string>> extends SchemaNode<SchemaValueOf<S>[], "array"> {
+	/** the schema node of every item in the array */
+	readonly item: S
+	/** the fixed number of items in the array, or `undefined` if the length is stored in the header */
+	readonly length?: number
+
+	constructor(item: S, length?: number) {
+		super("array")
+		this.item = item
+		this.length = length
+	}
+
+	encode(value: SchemaValueOf<S>[]): Uint8Array {
+		if (DEBUG) this.value = value
+		const
+			len = this.length ?? value.length,
+			bufs: Uint8Array[] = this.length === undefined ? [encode_uvar(len)] : []
+		if (value.length < len) throw new Error(`schema array expected ${len} items, but only ${value.length} were provided`)
+		for (let i = 0; i < len; i++) bufs.push(this.item.encode(value[i]))
+		return concatBytes(...bufs)
+	}
+
+	decode(buf: Uint8Array, offset: number): Decoded<SchemaValueOf<S>[]> {
+		const value: SchemaValueOf<S>[] = []
+		let
+			len = this.length,
+			total_bytesize = 0
+		if (len === undefined) [len, total_bytesize] = decode_uvar(buf, offset)
+		for (let i = 0; i < len; i++) {
+			const [item_value, bytesize] = this.item.decode(buf, offset + total_bytesize)
+			value.push(item_value)
+			total_bytesize += bytesize
+		}
+		if (DEBUG) this.value = value
+		return [value, total_bytesize]
+	}
+}
+
+/** a schema node that maps string labels to the values of an underlying `base` schema node, and vice versa. <br>
+ * encoding or decoding anything that is not in the `mapping` throws an error.
+ * @example
+ * ```ts
+ * const color = new SchemaEnum(new SchemaPrimitive("u1"), { red: 0, green: 1, blue: 2 })
+ * color.encode("green") // Uint8Array.of(1)
+ * color.decode(Uint8Array.of(2), 0) // ["blue", 1]
+ * ```
+*/
+export class SchemaEnum<S extends SchemaNode<any, string>, M extends { [label: string]: SchemaValueOf<S> }> extends SchemaNode<keyof M & string, "enum"> {
+	/** the schema node of the underlying encoded values */
+	readonly base: S
+	/** the mapping from labels to the underlying values */
+	readonly mapping: M
+
+	constructor(base: S, mapping: M) {
+		super("enum")
+		this.base = base
+		this.mapping = mapping
+	}
+
+	encode(value: keyof M & string): Uint8Array {
+		if (DEBUG) this.value = value
+		if (!(value in this.mapping)) throw new Error(`schema enum has no label named "${value}"`)
+		return this.base.encode(this.mapping[value])
+	}
+
+	decode(buf: Uint8Array, offset: number): Decoded<keyof M & string> {
+		const [base_value, bytesize] = this.base.decode(buf, offset)
+		for (const label in this.mapping) {
+			if (this.mapping[label] === base_value) {
+				if (DEBUG) this.value = label
+				return [label, bytesize]
+			}
+		}
+		throw new Error(`schema enum has no label for the decoded value "${base_value}"`)
+	}
+}
@@ -0,0 +1,185 @@
+/** utility functions for reducing numeric arrays and computing their statistics. <br>
+ * all functions operate over the range of indexes `start` to `end` (exclusive), which are resolved via {@link resolveRange},
+ * so negative indexes count from the end of the array. <br>
+ * summations are compensated (via the Kahan-Babuska-Neumaier algorithm), so that the accumulated rounding error does not drift
+ * even when summing millions of single precision (`f4`) samples. <br>
+ * `NaN`s are handled according to the kind of reduction:
+ * - the order based reductions ({@link argmin}, {@link argmax}, {@link min}, {@link max}, {@link histogram}, and {@link percentile}) skip over `NaN`s,
+ *   as if they were not part of the range at all
+ * - the arithmetic reductions ({@link sum}, {@link product}, {@link mean}, {@link variance}, {@link std}, and {@link cumsum}) propagate `NaN`s into their results,
+ *   just as ordinary floating point arithmetic does
+ * @module
+*/
+
+import { resolveRange } from "./typedbuffer"
+import { NumberDType, TypedArray } from "./typedefs"
+
+/** the result of a {@link histogram} computation */
+export interface Histogram {
+	/** the number of elements that fall into each bin */
+	counts: number[]
+	/** the `bins + 1` number of bin edges. bin `i` covers the interval `[edges[i], edges[i + 1])`, except for the last bin, which also includes its right edge */
+	edges: number[]
+}
+
+/** compute the **sum** of elements, using compensated summation for numerical stability */
+export const sum = (arr: TypedArray<NumberDType> | Array<number>, start?: number, end?: number): number => {
+	const [xs, xe] = resolveRange(start, end, arr.length)
+	let
+		total = 0,
+		compensation = 0
+	for (let i = xs; i < xe; i++) {
+		const
+			value = arr[i],
+			t = total + value
+		// the low-order bits lost during the addition are accumulated separately
+		compensation += Math.abs(total) >= Math.abs(value) ? (total - t) + value : (value - t) + total
+		total = t
+	}
+	// once the total overflows (or meets an infinity), the compensation degenerates into `Infinity - Infinity = NaN`, and must be dropped
+	return Number.isFinite(total) ? total + compensation : total
+}
+
+/** compute the **product** of elements. an empty range results in `1` */
+export const product = (arr: TypedArray<NumberDType> | Array<number>, start?: number, end?: number): number => {
+	const [xs, xe] = resolveRange(start, end, arr.length)
+	let total = 1
+	for (let i = xs; i < xe; i++) total *= arr[i]
+	return total
+}
+
+/** find the index of the **minimum** element, skipping over `NaN`s. `-1` is returned for an empty range (or one with only `NaN`s) */
+export const argmin = (arr: TypedArray<NumberDType> | Array<number>, start?: number, end?: number): number => {
+	const [xs, xe] = resolveRange(start, end, arr.length)
+	let index = -1
+	for (let i = xs; i < xe; i++) {
+		const value = arr[i]
+		if (index < 0 ? !Number.isNaN(value) : value < arr[index]) index = i
+	}
+	return index
+}
+
+/** find the index of the **maximum** element, skipping over `NaN`s. `-1` is returned for an empty range (or one with only `NaN`s) */
+export const argmax = (arr: TypedArray<NumberDType> | Array<number>, start?: number, end?: number): number => {
+	const [xs, xe] = resolveRange(start, end, arr.length)
+	let index = -1
+	for (let i = xs; i < xe; i++) {
+		const value = arr[i]
+		if (index < 0 ? !Number.isNaN(value) : value > arr[index]) index = i
+	}
+	return index
+}
+
+/** find the **minimum** element, skipping over `NaN`s. `Infinity` is returned for an empty range (or one with only `NaN`s) */
+export const min = (arr: TypedArray<NumberDType> | Array<number>, start?: number, end?: number): number => {
+	const index = argmin(arr, start, end)
+	return index < 0 ? Infinity : arr[index]
+}
+
+/** find the **maximum** element, skipping over `NaN`s. `-Infinity` is returned for an empty range (or one with only `NaN`s) */
+export const max = (arr: TypedArray<NumberDType> | Array<number>, start?: number, end?: number): number => {
+	const index = argmax(arr, start, end)
+	return index < 0 ? -Infinity : arr[index]
+}
+
+/** compute the arithmetic **mean** of elements. `NaN` is returned for an empty range */
+export const mean = (arr: TypedArray<NumberDType> | Array<number>, start?: number, end?: number): number => {
+	const [xs, xe, len] = resolveRange(start, end, arr.length)
+	return len > 0 ? sum(arr, xs, xe) / len : NaN
+}
+
+/** compute the **variance** of elements, using the two-pass algorithm for numerical stability. <br>
+ * the `ddof` (delta degrees of freedom) is subtracted from the number of elements in the denominator.
+ * use `ddof = 0` (default) for the population variance, and `ddof = 1` for the unbiased sample variance. <br>
+ * `NaN` is returned when the number of elements does not exceed `ddof`
+*/
+export const variance = (arr: TypedArray<NumberDType> | Array<number>, start?: number, end?: number, ddof: number = 0): number => {
+	const [xs, xe, len] = resolveRange(start, end, arr.length)
+	if (len <= ddof) return NaN
+	const mu = sum(arr, xs, xe) / len
+	let
+		sum_sq = 0,
+		sum_dev = 0
+	for (let i = xs; i < xe; i++) {
+		const dev = arr[i] - mu
+		sum_sq += dev * dev
+		sum_dev += dev
+	}
+	// the `sum_dev` term corrects for the rounding error in `mu`
+	return (sum_sq - sum_dev * sum_dev / len) / (len - ddof)
+}
+
+/** compute the **standard deviation** of elements. see {@link variance} for the meaning of `ddof` */
+export const std = (arr: TypedArray<NumberDType> | Array<number>, start?: number, end?: number, ddof: number = 0): number => Math.sqrt(variance(arr, start, end, ddof))
+
+/** compute the **cumulative sum** (running total) of elements, using compensated summation for numerical stability. <br>
+ * this is the inverse of {@link diff}, in the sense that `cumsum([arr[0], ...diff(arr)])` reconstructs `arr` <br>
+ * the returned array has the same length as the range
+ * @copy
+*/
+export const cumsum = <A extends TypedArray<NumberDType> | Array<number> = any>(arr: A, start?: number, end?: number): A => {
+	const
+		[xs, xe] = resolveRange(start, end, arr.length),
+		c = arr.slice(xs, xe) as A
+	let
+		total = 0,
+		compensation = 0
+	for (let i = 0; i < c.length; i++) {
+		const
+			value = c[i],
+			t = total + value
+		compensation += Math.abs(total) >= Math.abs(value) ? (total - t) + value : (value - t) + total
+		total = t
+		c[i] = Number.isFinite(total) ? total + compensation : total
+	}
+	return c
+}
+
+/** compute the **histogram** of elements over `bins` number of equal-width bins. <br>
+ * the bins span the `range` `[min, max]`, which defaults to the minimum and maximum of the (non-`NaN`) elements.
+ * elements outside of the `range` (and `NaN`s) are not counted
+ * @example
+ * ```ts
+ * histogram([1, 2, 2, 3, 3, 3, 4], 3) // { counts: [1, 2, 4], edges: [1, 2, 3, 4] }
+ * ```
+*/
+export const histogram = (arr: TypedArray<NumberDType> | Array<number>, bins: number, range?: [min: number, max: number], start?: number, end?: number): Histogram => {
+	const [xs, xe] = resolveRange(start, end, arr.length)
+	if (!(bins >= 1 && Number.isInteger(bins))) throw new RangeError(`the number of histogram bins must be a positive integer, but ${bins} was provided`)
+	let [lo, hi] = range ?? [min(arr, xs, xe), max(arr, xs, xe)]
+	// a range without any (non-`NaN`) elements has no extrema to span, so it defaults to `[0, 1]`
+	if (!(lo <= hi) && range === undefined) [lo, hi] = [0, 1]
+	// a zero-width range is widened by `0.5` on either side, so that the bins have a non-zero width
+	if (lo === hi) [lo, hi] = [lo - 0.5, hi + 0.5]
+	const
+		width = (hi - lo) / bins,
+		counts: number[] = Array(bins).fill(0),
+		edges: number[] = Array.from({ length: bins + 1 }, (_, i) => lo + i * width)
+	edges[bins] = hi
+	for (let i = xs; i < xe; i++) {
+		const value = arr[i]
+		if (!(value >= lo && value <= hi)) continue
+		counts[value === hi ? bins - 1 : Math.min(Math.floor((value - lo) / width), bins - 1)]++
+	}
+	return { counts, edges }
+}
+
+/** compute the `p`-th **percentile** of elements (where `0 <= p <= 100`), by linearly interpolating between the two nearest ranks. <br>
+ * `NaN`s are ignored, and `NaN` is returned when no other elements are in the range
+ * @example
+ * ```ts
+ * percentile([1, 2, 3, 4], 50) // 2.5
+ * percentile([1, 2, 3, 4], 100) // 4
+ * ```
+*/
+export const percentile = (arr: TypedArray<NumberDType> | Array<number>, p: number, start?: number, end?: number): number => {
+	const [xs, xe] = resolveRange(start, end, arr.length)
+	if (!(p >= 0 && p <= 100)) throw new RangeError(`a percentile must be within the range [0, 100], but ${p} was provided`)
+	const sorted = Float64Array.from(arr.slice(xs, xe) as ArrayLike<number>).filter((value) => !Number.isNaN(value)).sort()
+	if (sorted.length === 0) return NaN
+	const
+		rank = (p / 100) * (sorted.length - 1),
+		lo = Math.floor(rank),
+		hi = Math.ceil(rank)
+	return sorted[lo] + (sorted[hi] - sorted[lo]) * (rank - lo)
+}
@@ -2,7 +2,7 @@
  * @module
 */
 
-import { ConstructorOf, NumericDType, TypedArray, TypedArrayConstructor } from "./typedefs"
+import { ConstructorOf, NumberDType, NumericDType, NumericEndianType, TypedArray, TypedArrayConstructor } from "./typedefs"
 
 /** checks if an object `obj` is a {@link TypedArray}, based on simply checking whether `obj.buffer` exists or not. <br>
  * this is certainly not a very robust way of verifying. <br>
@@ -18,11 +18,11 @@ export const typed_array_constructor_of = <DType extends NumericDType = NumericD
 		case "u1": return Uint8Array as any
 		case "u2": return Uint16Array as any
 		case "u4": return Uint32Array as any
-		//case "u8": return BigUint64Array as any
+		case "u8": return BigUint64Array as any
 		case "i1": return Int8Array as any
 		case "i2": return Int16Array as any
 		case "i4": return Int32Array as any
-		//case "i8": return BigInt64Array as any
+		case "i8": return BigInt64Array as any
 		case "f4": return Float32Array as any
 		case "f8": return Float64Array as any
 		default: {
@@ -32,6 +32,33 @@ export const typed_array_constructor_of = <DType extends NumericDType = NumericD
 	}
 }
 
+/** mapping of each typed array constructor to its {@link NumericDType} */
+const typed_array_dtypes = new Map<Function, NumericDType>([
+	[Uint8Array, "u1"],
+	[Uint8ClampedArray, "u1c"],
+	[Uint16Array, "u2"],
+	[Uint32Array, "u4"],
+	[BigUint64Array, "u8"],
+	[Int8Array, "i1"],
+	[Int16Array, "i2"],
+	[Int32Array, "i4"],
+	[BigInt64Array, "i8"],
+	[Float32Array, "f4"],
+	[Float64Array, "f8"],
+])
+
+/** get the {@link NumericDType} of a typed array. this is the inverse of {@link typed_array_constructor_of}. <br>
+ * subclasses of typed arrays (such as node's `Buffer`) get the dtype of the typed array that they extend.
+ * an error is thrown if `arr` is not a typed array
+*/
+export const typed_array_dtype_of = <DType extends NumericDType = NumericDType>(arr: TypedArray<DType>): DType => {
+	for (let proto = Object.getPrototypeOf(arr); proto !== null; proto = Object.getPrototypeOf(proto)) {
+		const dtype = typed_array_dtypes.get(proto.constructor)
+		if (dtype !== undefined) return dtype as DType
+	}
+	throw new TypeError(`expected a typed array, but received an instance of "${arr?.constructor?.name}"`)
+}
+
 /** dictates if the native endianess of your `TypedArray`s is little endian. */
 export const getEnvironmentEndianess = (): boolean => (new Uint8Array(Uint32Array.of(1).buffer))[0] === 1 ? true : false
 
@@ -47,14 +74,25 @@ export const swapEndianess = (buf: Uint8Array, bytesize: number): Uint8Array =>
 	return buf
 }
 
-/** 10x faster implementation of {@link swapEndianess} that does not mutatate the original `buf` array
+/** 10x faster implementation of {@link swapEndianess} that does not mutatate the original `buf` array. <br>
+ * the output array is drawn from the `pool` when one is provided (see {@link BufferPool}), otherwise it is freshly allocated
  * @copy
 */
-export const swapEndianessFast = (buf: Uint8Array, bytesize: number): Uint8Array => {
+export const swapEndianessFast = (buf: Uint8Array, bytesize: number, pool?: BufferPool): Uint8Array => {
+	const len = buf.byteLength
+	return swapEndianessInto(buf, bytesize, pool?.acquire(len) ?? new Uint8Array(len))
+}
+
+/** same as {@link swapEndianessFast}, except that the swapped bytes are written into the caller-provided `dst` array, which must not overlap with `buf`. <br>
+ * the written portion of `dst` (ie `dst.subarray(0, buf.byteLength)`) is returned
+ * @inplace `dst`
+*/
+export const swapEndianessInto = (buf: Uint8Array, bytesize: number, dst: Uint8Array): Uint8Array => {
 	const
 		len = buf.byteLength,
-		swapped_buf = new Uint8Array(len),
+		swapped_buf = dst.subarray(0, len),
 		bs = bytesize
+	if (dst.length < len) throw new RangeError(`the destination array of length ${dst.length} cannot hold the ${len} swapped bytes`)
 	for (let offset = 0; offset < bs; offset++) {
 		const a = bs - 1 - offset * 2
 		for (let i = offset; i < len + offset; i += bs) swapped_buf[i] = buf[i + a]
@@ -67,22 +105,123 @@ export const swapEndianessFast = (buf: Uint8Array, bytesize: number): Uint8Array
  * @copy
 */
 export const concatBytes = (...arrs: (Uint8Array | Array<number>)[]): Uint8Array => {
-	const offsets: number[] = [0]
-	for (const arr of arrs) offsets.push(offsets[offsets.length - 1] + arr.length)
-	const outarr = new Uint8Array(offsets.pop()!)
-	for (const arr of arrs) outarr.set(arr, offsets.shift())
-	return outarr
+	return concatBytesInto(new Uint8Array(totalLengthOf(arrs)), ...arrs)
 }
 
 /** concatenate a bunch of {@link TypedArray}
  * @copy
 */
 export const concatTyped = <TA extends TypedArray>(...arrs: TA[]): TA => {
-	const offsets: number[] = [0]
-	for (const arr of arrs) offsets.push(offsets[offsets.length - 1] + arr.length)
-	const outarr = new (arrs[0].constructor as ConstructorOf<TA>)(offsets.pop()!)
-	for (const arr of arrs) outarr.set(arr, offsets.shift())
-	return outarr
+	return concatTypedInto(new (arrs[0].constructor as ConstructorOf<TA>)(totalLengthOf(arrs)), ...arrs)
+}
+
+/** compute the sum of the lengths of a bunch of arrays */
+const totalLengthOf = (arrs: ArrayLike<any>[]): number => {
+	let total = 0
+	for (const arr of arrs) total += arr.length
+	return total
+}
+
+/** same as {@link concatBytes}, except that the concatenation is written into the beginning of the caller-provided `dst` array. <br>
+ * the written portion of `dst` is returned. to write at an offset, simply provide a subarray of your destination, such as `dst.subarray(offset)`
+ * @inplace `dst`
+*/
+export const concatBytesInto = (dst: Uint8Array, ...arrs: (Uint8Array | Array<number>)[]): Uint8Array => {
+	return concatTypedInto(dst, ...arrs as Uint8Array[])
+}
+
+/** same as {@link concatTyped}, except that the concatenation is written into the beginning of the caller-provided `dst` array. <br>
+ * the written portion of `dst` is returned
+ * @inplace `dst`
+*/
+export const concatTypedInto = <TA extends TypedArray>(dst: TA, ...arrs: TA[]): TA => {
+	const len = totalLengthOf(arrs)
+	if (dst.length < len) throw new RangeError(`the destination array of length ${dst.length} cannot hold the ${len} concatenated elements`)
+	let offset = 0
+	for (const arr of arrs) {
+		dst.set(arr as any, offset)
+		offset += arr.length
+	}
+	return dst.subarray(0, len) as TA
+}
+
+/// BUFFER POOL
+
+/** compute the power of two capacity of the pooled buffer that can hold `bytesize` number of bytes */
+const poolCapacityOf = (bytesize: number): number => bytesize <= 1 ? 1 : 2 ** (32 - Math.clz32(bytesize - 1))
+
+/** a pool of reusable `ArrayBuffer`s, which lets hot encoding loops avoid the garbage collection pressure of allocating fresh arrays on every call. <br>
+ * buffers are bucketed by their power of two capacities, so an acquired array is a view over a buffer that is at most twice as large as requested. <br>
+ * the contents of an acquired array are **not** zeroed, they may hold stale data from a previous use.
+ * once you are done with an acquired array, {@link release} it back into the pool, and then never touch it (or any other view of its buffer) again.
+ * @example
+ * ```ts
+ * const pool = new BufferPool()
+ * for (const frame of frames) {
+ * 	const bytes = pool.concatBytes(frame_header, frame.payload)
+ * 	socket.send(bytes)
+ * 	pool.release(bytes)
+ * }
+ * ```
+*/
+export class BufferPool {
+	/** the free buffers of each power of two capacity, keyed by the capacity */
+	protected readonly buckets: Map<number, ArrayBuffer[]> = new Map()
+	/** the buffers that were created by this pool. only these buffers are ever accepted back by {@link release} */
+	protected readonly issued: WeakSet<ArrayBuffer> = new WeakSet()
+	/** the maximum number of free buffers retained per capacity. any excess released buffers are left to the garbage collector */
+	readonly max_per_bucket: number
+	/** buffers larger than this bytesize are never pooled */
+	readonly max_bytesize: number
+
+	constructor(max_per_bucket: number = 8, max_bytesize: number = 2 ** 28) {
+		this.max_per_bucket = max_per_bucket
+		this.max_bytesize = max_bytesize
+	}
+
+	/** get a `Uint8Array` of exactly `bytesize` length, drawn from the pool if a free buffer is available. its contents are unspecified */
+	acquire(bytesize: number): Uint8Array {
+		if (bytesize > this.max_bytesize) return new Uint8Array(bytesize)
+		const
+			capacity = poolCapacityOf(bytesize),
+			buffer = this.buckets.get(capacity)?.pop() ?? new ArrayBuffer(capacity)
+		this.issued.add(buffer)
+		return new Uint8Array(buffer, 0, bytesize)
+	}
+
+	/** get a typed array of the given `constructor` with exactly `length` number of elements, drawn from the pool if a free buffer is available. its contents are unspecified */
+	acquireTyped<TA extends TypedArray>(constructor: ConstructorOf<TA> & { BYTES_PER_ELEMENT: number }, length: number): TA {
+		return new constructor(this.acquire(length * constructor.BYTES_PER_ELEMENT).buffer, 0, length)
+	}
+
+	/** return the underlying buffer of an array that was acquired from this pool, so that it can be reused. <br>
+	 * arrays whose buffers were not created by this pool are silently ignored (so releasing a zero-copy view of some other array can never hand that array out later),
+	 * and so are buffers that are already free
+	*/
+	release(arr: TypedArray): void {
+		const
+			buffer = arr.buffer as ArrayBuffer,
+			capacity = buffer.byteLength
+		if (!this.issued.has(buffer)) return
+		let bucket = this.buckets.get(capacity)
+		if (bucket === undefined) this.buckets.set(capacity, bucket = [])
+		if (bucket.length < this.max_per_bucket && !bucket.includes(buffer)) bucket.push(buffer)
+	}
+
+	/** drop all free buffers */
+	clear(): void {
+		this.buckets.clear()
+	}
+
+	/** same as {@link concatBytes}, except that the output array is drawn from this pool */
+	concatBytes(...arrs: (Uint8Array | Array<number>)[]): Uint8Array {
+		return concatBytesInto(this.acquire(totalLengthOf(arrs)), ...arrs)
+	}
+
+	/** same as {@link concatTyped}, except that the output array is drawn from this pool */
+	concatTyped<TA extends TypedArray>(...arrs: TA[]): TA {
+		return concatTypedInto(this.acquireTyped(arrs[0].constructor as ConstructorOf<TA> & { BYTES_PER_ELEMENT: number }, totalLengthOf(arrs)), ...arrs)
+	}
 }
 
 /** resovle the positive (normalized) starting and ending indexes of a range. <br>
@@ -150,4 +289,417 @@ export const isSubidentical = <T extends ([] | TypedArray)>(arr1: T, arr2: T): b
 	const len = Math.min(arr1.length, arr2.length)
 	for (let i = 0; i < len; i++) if (arr1[i] !== arr2[i]) return false
 	return true
-}
\ No newline at end of file
+}
+
+/// BYTE SEARCH AND COMPARISON
+
+/** compute the Boyer-Moore-Horspool bad character shift table of a `pattern`, for a forward search. <br>
+ * the shift of a byte value is the distance from its last occurrence in the `pattern` (excluding the final byte) to the end of the `pattern`
+*/
+const forwardShiftTableOf = (pattern: Uint8Array): Uint32Array => {
+	const
+		m = pattern.length,
+		table = new Uint32Array(256).fill(m)
+	for (let i = 0; i < m - 1; i++) table[pattern[i]] = m - 1 - i
+	return table
+}
+
+/** compute the Boyer-Moore-Horspool bad character shift table of a `pattern`, for a backward search. <br>
+ * the shift of a byte value is the distance from the start of the `pattern` to its first occurrence (excluding the first byte)
+*/
+const backwardShiftTableOf = (pattern: Uint8Array): Uint32Array => {
+	const
+		m = pattern.length,
+		table = new Uint32Array(256).fill(m)
+	for (let i = m - 1; i > 0; i--) table[pattern[i]] = i
+	return table
+}
+
+/** find the index of the first occurrence of a byte `pattern` within the range `start` to `end` of `buf`, using the Boyer-Moore-Horspool algorithm. <br>
+ * `-1` is returned if the `pattern` is not found, and an empty `pattern` is found right at `start`
+ * @example
+ * ```ts
+ * const png_bytes = new Uint8Array(await file.arrayBuffer())
+ * const idat_chunk_type_index = indexOfBytes(png_bytes, encodeText("IDAT"))
+ * ```
+*/
+export const indexOfBytes = (buf: Uint8Array, pattern: Uint8Array, start?: number, end?: number): number => {
+	const
+		[xs, xe] = resolveRange(start, end, buf.length),
+		m = pattern.length
+	if (m === 0) return xs
+	const
+		table = forwardShiftTableOf(pattern),
+		last = pattern[m - 1]
+	for (let i = xs; i + m <= xe; i += table[buf[i + m - 1]]) {
+		// the final byte is checked first, since it was going to be read for the shift anyway
+		if (buf[i + m - 1] !== last) continue
+		let j = 0
+		while (j < m - 1 && buf[i + j] === pattern[j]) j++
+		if (j === m - 1) return i
+	}
+	return -1
+}
+
+/** find the index of the last occurrence of a byte `pattern` within the range `start` to `end` of `buf`, using the Boyer-Moore-Horspool algorithm in reverse. <br>
+ * `-1` is returned if the `pattern` is not found, and an empty `pattern` is found right at `end`
+*/
+export const lastIndexOfBytes = (buf: Uint8Array, pattern: Uint8Array, start?: number, end?: number): number => {
+	const
+		[xs, xe] = resolveRange(start, end, buf.length),
+		m = pattern.length
+	if (m === 0) return xe
+	const
+		table = backwardShiftTableOf(pattern),
+		first = pattern[0]
+	for (let i = xe - m; i >= xs; i -= table[buf[i]]) {
+		if (buf[i] !== first) continue
+		let j = m - 1
+		while (j > 0 && buf[i + j] === pattern[j]) j--
+		if (j === 0) return i
+	}
+	return -1
+}
+
+/** find the indexes of all occurrences of a byte `pattern` within the range `start` to `end` of `buf`. <br>
+ * by default, the occurrences do not overlap (ie the search resumes after the end of each match). set `overlapping` to `true` to resume the search right after the start of each match instead
+ * @example
+ * ```ts
+ * findAllBytes(Uint8Array.of(1, 1, 1, 1), Uint8Array.of(1, 1)) // [0, 2]
+ * findAllBytes(Uint8Array.of(1, 1, 1, 1), Uint8Array.of(1, 1), undefined, undefined, true) // [0, 1, 2]
+ * ```
+*/
+export const findAllBytes = (buf: Uint8Array, pattern: Uint8Array, start?: number, end?: number, overlapping: boolean = false): number[] => {
+	const
+		[xs, xe] = resolveRange(start, end, buf.length),
+		indexes: number[] = []
+	if (pattern.length === 0) throw new RangeError("cannot find all occurrences of an empty byte pattern")
+	for (let i = indexOfBytes(buf, pattern, xs, xe); i >= 0; i = indexOfBytes(buf, pattern, i + (overlapping ? 1 : pattern.length), xe)) indexes.push(i)
+	return indexes
+}
+
+/** lexicographically compare two byte buffers. <br>
+ * `-1` is returned if `buf1` comes before `buf2`, `1` if it comes after, and `0` if they are identical.
+ * when one buffer is a prefix of the other, the shorter buffer comes first
+*/
+export const compareBytes = (buf1: Uint8Array, buf2: Uint8Array): -1 | 0 | 1 => {
+	const len = Math.min(buf1.length, buf2.length)
+	for (let i = 0; i < len; i++) if (buf1[i] !== buf2[i]) return buf1[i] < buf2[i] ? -1 : 1
+	return buf1.length === buf2.length ? 0 : buf1.length < buf2.length ? -1 : 1
+}
+
+/** find the ranges of indexes `[start, end)` at which two byte buffers differ. <br>
+ * if the buffers are of different lengths, then the trailing bytes of the longer one are counted as a differing range. <br>
+ * differing ranges that are separated by no more than `gap` number of equal bytes are merged together, which helps in keeping the output of noisy diffs short
+ * @example
+ * ```ts
+ * diffBytes(Uint8Array.of(1, 2, 3, 4, 5), Uint8Array.of(1, 0, 3, 0, 5, 6)) // [[1, 2], [3, 4], [5, 6]]
+ * diffBytes(Uint8Array.of(1, 2, 3, 4, 5), Uint8Array.of(1, 0, 3, 0, 5, 6), 1) // [[1, 6]]
+ * ```
+*/
+export const diffBytes = (buf1: Uint8Array, buf2: Uint8Array, gap: number = 0): [start: number, end: number][] => {
+	const
+		len = Math.min(buf1.length, buf2.length),
+		max_len = Math.max(buf1.length, buf2.length),
+		ranges: [start: number, end: number][] = []
+	const pushRange = (start: number, end: number) => {
+		const previous = ranges[ranges.length - 1]
+		if (previous !== undefined && start - previous[1] <= gap) previous[1] = end
+		else ranges.push([start, end])
+	}
+	for (let i = 0; i < len; i++) {
+		if (buf1[i] === buf2[i]) continue
+		const start = i
+		while (i < len && buf1[i] !== buf2[i]) i++
+		pushRange(start, i)
+	}
+	if (len < max_len) pushRange(len, max_len)
+	return ranges
+}
+
+/// ORDERED DATA
+
+/** a comparison function for ordering numbers. it must return a negative number if `a` comes before `b`, a positive number if `a` comes after `b`, and `0` if they are equivalent */
+export type Comparator = (a: number, b: number) => number
+
+/** the default ascending numeric {@link Comparator} */
+const ascending: Comparator = (a, b) => a - b
+
+/** create an array of the same kind as `arr` (ie the same typed array constructor, or a regular array) holding the given `values` */
+const similarArrayOf = <A extends TypedArray<NumberDType> | Array<number>>(arr: A, values: number[]): A => isTypedArray(arr) ?
+	new (arr.constructor as ConstructorOf<A>)(values) :
+	values as A
+
+/** find the first index within the sorted range `start` to `end` of `arr` whose element is **not less** than `value` (ie the insertion point that precedes any equivalent elements). <br>
+ * the range must be sorted in accordance with the `compare` function, which defaults to ascending numeric order. `end` is returned if all elements are less than `value`
+ * @example
+ * ```ts
+ * lowerBound([10, 20, 20, 30], 20) // 1
+ * lowerBound([10, 20, 20, 30], 25) // 3
+ * ```
+*/
+export const lowerBound = (arr: TypedArray<NumberDType> | Array<number>, value: number, start?: number, end?: number, compare: Comparator = ascending): number => {
+	let [lo, hi] = resolveRange(start, end, arr.length)
+	while (lo < hi) {
+		const mid = (lo + hi) >>> 1
+		if (compare(arr[mid], value) < 0) lo = mid + 1
+		else hi = mid
+	}
+	return lo
+}
+
+/** find the first index within the sorted range `start` to `end` of `arr` whose element is **greater** than `value` (ie the insertion point that follows any equivalent elements). <br>
+ * the range must be sorted in accordance with the `compare` function, which defaults to ascending numeric order. `end` is returned if no element is greater than `value`
+ * @example
+ * ```ts
+ * upperBound([10, 20, 20, 30], 20) // 3
+ * upperBound([10, 20, 20, 30], 5) // 0
+ * ```
+*/
+export const upperBound = (arr: TypedArray<NumberDType> | Array<number>, value: number, start?: number, end?: number, compare: Comparator = ascending): number => {
+	let [lo, hi] = resolveRange(start, end, arr.length)
+	while (lo < hi) {
+		const mid = (lo + hi) >>> 1
+		if (compare(arr[mid], value) <= 0) lo = mid + 1
+		else hi = mid
+	}
+	return lo
+}
+
+/** find the index of an element equivalent to `value` within the sorted range `start` to `end` of `arr`. `-1` is returned if there is none. <br>
+ * when there are several equivalent elements, the index of the first one is returned
+*/
+export const binarySearch = (arr: TypedArray<NumberDType> | Array<number>, value: number, start?: number, end?: number, compare: Comparator = ascending): number => {
+	const
+		[xs, xe] = resolveRange(start, end, arr.length),
+		index = lowerBound(arr, value, xs, xe, compare)
+	return index < xe && compare(arr[index], value) === 0 ? index : -1
+}
+
+/** sort the range `start` to `end` of `arr` in-place, in accordance with the `compare` function (which defaults to ascending numeric order). <br>
+ * the elements outside of the range are left untouched
+ * @inplace
+*/
+export const sortInplace = <A extends TypedArray<NumberDType> | Array<number>>(arr: A, start?: number, end?: number, compare: Comparator = ascending): A => {
+	const [xs, xe] = resolveRange(start, end, arr.length)
+	if (isTypedArray(arr)) {
+		arr.subarray(xs, xe).sort(compare)
+		return arr
+	}
+	const sorted = arr.slice(xs, xe).sort(compare)
+	for (let i = xs; i < xe; i++) arr[i] = sorted[i - xs]
+	return arr
+}
+
+/** get the indexes that would sort the range `start` to `end` of `arr`, in accordance with the `compare` function (which defaults to ascending numeric order). <br>
+ * the returned indexes refer to positions in `arr` itself (not relative to `start`), and the sort is stable, so equivalent elements retain their original order
+ * @example
+ * ```ts
+ * const timestamps = Float64Array.of(30, 10, 20)
+ * argsort(timestamps) // Uint32Array [1, 2, 0]
+ * ```
+*/
+export const argsort = (arr: TypedArray<NumberDType> | Array<number>, start?: number, end?: number, compare: Comparator = ascending): Uint32Array => {
+	const
+		[xs, xe, len] = resolveRange(start, end, arr.length),
+		indexes = new Uint32Array(len)
+	for (let i = 0; i < len; i++) indexes[i] = xs + i
+	// ties are broken by the index itself, which makes the sort stable regardless of the engine's sorting algorithm
+	return indexes.sort((i, j) => compare(arr[i], arr[j]) || i - j)
+}
+
+/** remove consecutive duplicate elements within the sorted range `start` to `end` of `arr`, and return the unique elements as a new array of the same kind
+ * @copy
+*/
+export const uniqueSorted = <A extends TypedArray<NumberDType> | Array<number>>(arr: A, start?: number, end?: number, compare: Comparator = ascending): A => {
+	const
+		[xs, xe] = resolveRange(start, end, arr.length),
+		values: number[] = []
+	for (let i = xs; i < xe; i++) if (i === xs || compare(arr[i - 1], arr[i]) !== 0) values.push(arr[i])
+	return similarArrayOf(arr, values)
+}
+
+/** compute the sorted **union** of the unique elements within the sorted range `start` to `end` of `a`, and the unique elements of the sorted array `b`, as a new array of the same kind as `a`. <br>
+ * only the first operand takes a range, since a range of a typed array `b` can be provided as a zero-copy `b.subarray(start, end)`
+ * @example
+ * ```ts
+ * unionSorted([1, 3, 5, 7], [2, 3, 4]) // [1, 2, 3, 4, 5, 7]
+ * unionSorted([1, 3, 5, 7], [2, 3, 4], 1, 3) // [2, 3, 4, 5]
+ * ```
+ * @copy
+*/
+export const unionSorted = <A extends TypedArray<NumberDType> | Array<number>>(a: A, b: TypedArray<NumberDType> | Array<number>, start?: number, end?: number, compare: Comparator = ascending): A => {
+	const
+		[xs, xe] = resolveRange(start, end, a.length),
+		values: number[] = [],
+		push = (value: number) => { if (values.length === 0 || compare(values[values.length - 1], value) !== 0) values.push(value) }
+	let
+		i = xs,
+		j = 0
+	while (i < xe && j < b.length) push(compare(a[i], b[j]) <= 0 ? a[i++] : b[j++])
+	while (i < xe) push(a[i++])
+	while (j < b.length) push(b[j++])
+	return similarArrayOf(a, values)
+}
+
+/** compute the sorted **intersection** of the unique elements within the sorted range `start` to `end` of `a`, and the unique elements of the sorted array `b`, as a new array of the same kind as `a`. <br>
+ * see {@link unionSorted} for why only the first operand takes a range
+ * @copy
+*/
+export const intersectSorted = <A extends TypedArray<NumberDType> | Array<number>>(a: A, b: TypedArray<NumberDType> | Array<number>, start?: number, end?: number, compare: Comparator = ascending): A => {
+	const
+		[xs, xe] = resolveRange(start, end, a.length),
+		values: number[] = []
+	let
+		i = xs,
+		j = 0
+	while (i < xe && j < b.length) {
+		const order = compare(a[i], b[j])
+		if (order < 0) i++
+		else if (order > 0) j++
+		else {
+			if (values.length === 0 || compare(values[values.length - 1], a[i]) !== 0) values.push(a[i])
+			i++
+			j++
+		}
+	}
+	return similarArrayOf(a, values)
+}
+
+/** compute the sorted **difference** of the unique elements within the sorted range `start` to `end` of `a` that are not present in the sorted array `b`, as a new array of the same kind as `a`. <br>
+ * see {@link unionSorted} for why only the first operand takes a range
+ * @copy
+*/
+export const differenceSorted = <A extends TypedArray<NumberDType> | Array<number>>(a: A, b: TypedArray<NumberDType> | Array<number>, start?: number, end?: number, compare: Comparator = ascending): A => {
+	const
+		[xs, xe] = resolveRange(start, end, a.length),
+		values: number[] = []
+	let j = 0
+	for (let i = xs; i < xe; i++) {
+		const value = a[i]
+		while (j < b.length && compare(b[j], value) < 0) j++
+		if (j < b.length && compare(b[j], value) === 0) continue
+		if (values.length === 0 || compare(values[values.length - 1], value) !== 0) values.push(value)
+	}
+	return similarArrayOf(a, values)
+}
+
+/// DTYPE CONVERSION
+
+/** the rounding policy applied when converting to an integer dtype
+ * - `"truncate"` round towards zero. this is what typed arrays implicitly do
+ * - `"round"` round to the nearest integer, with halves rounded up
+ * - `"floor"` round towards negative infinity
+*/
+export type RoundingPolicy = "truncate" | "round" | "floor"
+
+/** the policy applied when a converted value does not fit in the range of an integer dtype
+ * - `"clamp"` saturate the value to the dtype's minimum or maximum. `NaN`s become `0`
+ * - `"wrap"` wrap the value around modulo the dtype's range. this is what typed arrays implicitly do
+*/
+export type OutOfRangePolicy = "clamp" | "wrap"
+
+/** options for {@link convertTyped} and {@link convertBytes} */
+export interface ConvertOptions {
+	/** the rounding policy for integer target dtypes. defaults to `"round"` */
+	rounding?: RoundingPolicy
+	/** the out-of-range policy for integer target dtypes. defaults to `"clamp"` */
+	out_of_range?: OutOfRangePolicy
+	/** when `true`, integer dtypes are treated as fixed-point representations of the normalized range of floats: <br>
+	 * unsigned integers map their `[0, max]` range to `[0, 1]` (such as `u1` pixels `0..255`),
+	 * and signed integers map `[-2 ** (bits - 1), 2 ** (bits - 1)]` to `[-1, 1]` (such as `i2` audio PCM samples). <br>
+	 * conversions between two integer dtypes get rescaled accordingly (ie `u1` to `u2` multiplies by `257`). defaults to `false`
+	*/
+	normalize?: boolean
+}
+
+/** get the inclusive `[min, max]` range of an integer `dtype`, or `undefined` for floating point dtypes */
+const integerRangeOf = (dtype: NumericDType): [min: number, max: number] | undefined => {
+	if (dtype[0] === "f") return undefined
+	const bits = parseInt(dtype[1]) * 8
+	return dtype[0] === "u" ? [0, 2 ** bits - 1] : [-(2 ** (bits - 1)), 2 ** (bits - 1) - 1]
+}
+
+/** get the value that represents `1.0` in a normalized integer `dtype` (see {@link ConvertOptions.normalize}). floating point dtypes have a scale of `1` */
+const normalizationScaleOf = (dtype: NumericDType): number => {
+	if (dtype[0] === "f") return 1
+	const bits = parseInt(dtype[1]) * 8
+	return dtype[0] === "u" ? 2 ** bits - 1 : 2 ** (bits - 1)
+}
+
+/** convert the elements of an array `arr` into a new typed array of a different `dtype`, applying the rounding, out-of-range, and normalization policies of `options`.
+ * @example
+ * ```ts
+ * convertTyped(Uint8Array.of(0, 51, 255), "f4", { normalize: true }) // Float32Array [0, 0.2, 1]
+ * convertTyped(Float32Array.of(-1, 0.5, 1), "i2", { normalize: true }) // Int16Array [-32768, 16384, 32767]
+ * convertTyped(Float64Array.of(-5.5, 2.5, 300), "u1") // Uint8Array [0, 3, 255]
+ * convertTyped(Float64Array.of(-5.5, 2.5, 300), "u1", { rounding: "floor", out_of_range: "wrap" }) // Uint8Array [250, 2, 44]
+ * ```
+ * @copy
+*/
+export const convertTyped = <DType extends NumericDType>(arr: TypedArray | Array<number | bigint>, dtype: DType, options: ConvertOptions = {}): TypedArray<DType> => {
+	const
+		{ rounding = "round", out_of_range = "clamp", normalize = false } = options,
+		source_dtype: NumericDType = isTypedArray(arr) ? typed_array_dtype_of(arr) : "f8",
+		len = arr.length,
+		out = new (typed_array_constructor_of(dtype as NumericDType))(len) as TypedArray<DType>,
+		scale = normalize ? normalizationScaleOf(dtype) / normalizationScaleOf(source_dtype) : 1,
+		range = integerRangeOf(dtype),
+		is_bigint = dtype === "u8" || dtype === "i8",
+		round = rounding === "round" ? (x: number) => Math.floor(x + 0.5) : rounding === "floor" ? Math.floor : Math.trunc
+	for (let i = 0; i < len; i++) {
+		let value = Number(arr[i]) * scale
+		if (range === undefined) {
+			out[i] = value
+			continue
+		}
+		const [lo, hi] = range
+		value = round(value)
+		if (is_bigint) {
+			out[i] = toBigInt64(value, dtype as "u8" | "i8", out_of_range) as never
+			continue
+		}
+		if (!(value >= lo && value <= hi)) {
+			if (out_of_range === "clamp") value = value > hi ? hi : value < lo ? lo : 0
+			else if (!Number.isNaN(value)) value = (((value - lo) % (hi - lo + 1)) + (hi - lo + 1)) % (hi - lo + 1) + lo
+		}
+		out[i] = value
+	}
+	return out
+}
+
+/** convert an integer `value` into a 64-bit `bigint` of the `dtype`, applying the `out_of_range` policy. <br>
+ * this is done separately from the other integer dtypes, since the bounds of 64-bit integers cannot be represented exactly by numbers
+*/
+const toBigInt64 = (value: number, dtype: "u8" | "i8", out_of_range: OutOfRangePolicy): bigint => {
+	const as_n = dtype === "u8" ? BigInt.asUintN : BigInt.asIntN
+	if (out_of_range === "wrap") return as_n(64, BigInt(Number.isFinite(value) ? value : 0))
+	const
+		min = dtype === "u8" ? BigInt(0) : BigInt(-(2 ** 63)),
+		max = as_n(64, dtype === "u8" ? BigInt(-1) : BigInt.asUintN(63, BigInt(-1)))
+	if (Number.isNaN(value)) return BigInt(0)
+	if (value <= -(2 ** 63) || (dtype === "u8" && value <= 0)) return min
+	if (value >= (dtype === "u8" ? 2 ** 64 : 2 ** 63)) return max
+	return BigInt(value)
+}
+
+/** convert raw bytes `buf`, holding elements of the fixed-sized numeric `type` (with its endianness, such as `"i2l"` or `"f4b"`), into a new typed array of a different `dtype`. <br>
+ * the bytes are reinterpreted according to the native endianness (see {@link env_le}), swapping them via {@link swapEndianessFast} when necessary,
+ * and then converted via {@link convertTyped} using the same `options`
+ * @example
+ * ```ts
+ * // decode a big-endian 16-bit PCM audio stream into normalized floats
+ * const samples = convertBytes(pcm_bytes, "i2b", "f4", { normalize: true })
+ * ```
+ * @copy
+*/
+export const convertBytes = <DType extends NumericDType>(buf: Uint8Array, type: `${NumericDType}${NumericEndianType}` | "u1" | "u1c" | "i1", dtype: DType, options: ConvertOptions = {}): TypedArray<DType> => {
+	const
+		bytesize = parseInt(type[1]),
+		source_constructor = typed_array_constructor_of(type),
+		little_endian = type[2] !== "b"
+	if (buf.length % bytesize !== 0) throw new RangeError(`the bytesize ${buf.length} is not a multiple of the "${type}" item bytesize ${bytesize}`)
+	// a copy is always made, so that the source typed array is aligned and has its own buffer
+	const bytes = bytesize > 1 && little_endian !== env_le ? swapEndianessFast(buf, bytesize) : buf.slice()
+	return convertTyped(new source_constructor(bytes.buffer) as TypedArray, dtype, options)
+}
@@ -41,6 +41,8 @@ export type DByteSize = "1" | "2" | "4" | "8"
  * the collection of possible valid numeric types is:
  * - `"u1"`, `"u2"`, `"u4"`, `"u8"`, `"i1"`, `"i2"`, `"i4"`, `"i8"`, `"f4"`, `"f8"`, `"u1c"`
  * 
+ * note that `"u8"` and `"i8"` (see {@link BigIntDType}) are represented by `bigint`s instead of `number`s
+ * 
  * the first character specifies the format:
  * - `u` = unsigned integer
  * - `i` = signed integer
@@ -52,7 +54,13 @@ export type DByteSize = "1" | "2" | "4" | "8"
  * - `4` = four bytes (word)
  * - `8` = eight bytes (long)
 */
-export type NumericDType = Exclude<`${NumericFormatType}${DByteSize}` | "u1c", "f1" | "f2" | "u8" | "i8">
+export type NumericDType = Exclude<`${NumericFormatType}${DByteSize}` | "u1c", "f1" | "f2">
+
+/** the subset of {@link NumericDType}s that are represented by `bigint`s in javascript, instead of `number`s */
+export type BigIntDType = "u8" | "i8"
+
+/** the subset of {@link NumericDType}s that are represented by `number`s in javascript */
+export type NumberDType = Exclude<NumericDType, BigIntDType>
 
 /** abstract constructor of any typed array, such as `new Uint8Array(...)`
  * you can narrow down the constructor through the use of a  {@link NumericDType} string annotation
@@ -66,11 +74,11 @@ export type TypedArrayConstructor<DType extends NumericDType = NumericDType> = {
 	"u1c": Uint8ClampedArrayConstructor
 	"u2": Uint16ArrayConstructor
 	"u4": Uint32ArrayConstructor
-	// "u8": BigUint64ArrayConstructor
+	"u8": BigUint64ArrayConstructor
 	"i1": Int8ArrayConstructor
 	"i2": Int16ArrayConstructor
 	"i4": Int32ArrayConstructor
-	// "i8": BigInt64ArrayConstructor
+	"i8": BigInt64ArrayConstructor
 	"f4": Float32ArrayConstructor
 	"f8": Float64ArrayConstructor
 }[DType]
@@ -87,11 +95,11 @@ export type TypedArray<DType extends NumericDType = NumericDType> = {
 	"u1c": Uint8ClampedArray
 	"u2": Uint16Array
 	"u4": Uint32Array
-	// "u8": BigUint64Array
+	"u8": BigUint64Array
 	"i1": Int8Array
 	"i2": Int16Array
 	"i4": Int32Array
-	// "i8": BigInt64Array
+	"i8": BigInt64Array
 	"f4": Float32Array
 	"f8": Float64Array
 }[DType]
@@ -101,7 +109,7 @@ export type ByteSize = DByteSize | "v"
 
 /** indicates the name of a numeric type with required endian information, or the use of a variable-sized integer. <br>
  * the collection of possible valid numeric types is:
- * - `"uv"`,  `"u1"`, `"iv"`, `"i1"`, `"u2l"`, `"u2b"`, `"i2l"`, `"i2b"`, `"u4l"`, `"u4b"`, `"u8l"`, `"u8b"`, `"i4l"`, `"i4b"`, `"i8l"`, `"i8b"`, `"f4l"`, `"f4b"`, `"f8l"`, `"f8b"`, `"u1c"`,
+ * - `"uv"`, `"uvn"`, `"uvl"`, `"u1"`, `"iv"`, `"ivn"`, `"ivl"`, `"ivz"`, `"i1"`, `"u2l"`, `"u2b"`, `"i2l"`, `"i2b"`, `"u4l"`, `"u4b"`, `"u8l"`, `"u8b"`, `"i4l"`, `"i4b"`, `"i8l"`, `"i8b"`, `"f4l"`, `"f4b"`, `"f8l"`, `"f8b"`, `"u1c"`,
  * 
  * the first character specifies the format:
  * - `u` = unsigned integer
@@ -115,12 +123,20 @@ export type ByteSize = DByteSize | "v"
  * - `4` = four bytes (word)
  * - `8` = eight bytes (long)
  * 
- * the third character specifies the endianess. but in the case of unsigned one byte integers, the `c` character specifies if the value is clamped to 255:
- * - `l` = little endian
+ * the third character specifies the endianess. but in the case of unsigned one byte integers, the `c` character specifies if the value is clamped to 255. <br>
+ * and in the case of variable-sized integers, the third character specifies the wire format:
+ * - `l` = little endian. for variable-sized integers, this is the [LEB128](https://en.wikipedia.org/wiki/LEB128) format used by protobuf, WebAssembly, and DWARF (`"uvl"` and `"ivl"`)
  * - `b` = big endian
  * - `c` = clamped (only valid for `"u1c"` type)
+ * - `n` = bigint (only valid for `"uvn"` and `"ivn"` types)
+ * - `z` = zigzag LEB128, as used by protobuf's signed integers (only valid for `"ivz"` type)
+ * 
+ * when the third character is omitted for variable-sized integers (`"uv"` and `"iv"`), the big endian base 128 format is used
 */
-export type NumericType = Exclude<`${NumericDType}${NumericEndianType}` | "uv" | "iv" | "u1" | "u1c" | "i1", `${"u1" | "u1c" | "i1"}${NumericEndianType}`>
+export type NumericType = Exclude<`${NumericDType}${NumericEndianType}` | "uv" | "iv" | "uvn" | "ivn" | "uvl" | "ivl" | "ivz" | "u1" | "u1c" | "i1", `${"u1" | "u1c" | "i1"}${NumericEndianType}`>
+
+/** the subset of {@link NumericType}s that occupy a fixed number of bytes (ie excluding the variable-sized integers) */
+export type FixedNumericType = Exclude<NumericType, `${"u" | "i"}v${string}`>
 
 /** an array (regular javascript array) of numbers can be interpreted as an array of formated binary numbers. */
 export type NumericArrayType = `${NumericType}[]`